@@ -1,16 +1,96 @@
-import { useState } from 'react'
-import { DateSelector } from './components'
+import { useMemo, useState } from 'react'
+import {
+  DateSelector,
+  type DateRange,
+  type Granularity,
+  type MonthCounts,
+  type TimelineEvent,
+  type TimelineScale,
+} from './components'
+
+// Deterministic fake photo counts so the density overlay has something to show
+function createSampleCounts(startYear: number, endYear: number): MonthCounts {
+  const counts = new Map<string, number>()
+  for (let year = startYear; year <= endYear; year++) {
+    for (let month = 0; month < 12; month++) {
+      const seed = Math.sin(year * 12 + month) * 10000
+      const value = Math.floor((seed - Math.floor(seed)) * 120) - 30
+      counts.set(
+        `${year}-${String(month + 1).padStart(2, '0')}`,
+        Math.max(0, value)
+      )
+    }
+  }
+  return counts
+}
+
+// A few life events relative to today, to show points and spans
+function createSampleEvents(): TimelineEvent[] {
+  const year = new Date().getFullYear()
+  return [
+    { date: new Date(year - 12, 5, 14), label: 'Wedding', color: '#e11d48' },
+    {
+      date: new Date(year - 9, 3, 2),
+      end: new Date(year - 9, 3, 20),
+      label: 'Trip to Japan',
+    },
+    { date: new Date(year - 6, 8, 1), label: 'Camera upgraded' },
+    {
+      date: new Date(year - 4, 6, 1),
+      end: new Date(year - 3, 1, 28),
+      label: 'Sabbatical',
+      color: '#10b981',
+    },
+  ]
+}
 
 function App() {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
+  const [selectedRange, setSelectedRange] = useState<DateRange | null>(null)
+  const [mode, setMode] = useState<'single' | 'range'>('single')
+  const [granularity, setGranularity] = useState<Granularity>('month')
+  const [scale, setScale] = useState<TimelineScale>('equal')
   const [locale, setLocale] = useState('en-US')
   const [orientation, setOrientation] = useState<'horizontal' | 'vertical'>(
     'vertical'
   )
+  const [showDensity, setShowDensity] = useState(false)
+  const [zoomable, setZoomable] = useState(false)
+  const [showEvents, setShowEvents] = useState(false)
 
   // Start date is 15 years ago
   const startDate = new Date(new Date().getFullYear() - 15, 0, 1)
 
+  const sampleCounts = useMemo(
+    () =>
+      createSampleCounts(
+        new Date().getFullYear() - 15,
+        new Date().getFullYear()
+      ),
+    []
+  )
+  const sampleEvents = useMemo(createSampleEvents, [])
+
+  const selection =
+    mode === 'range'
+      ? {
+          mode: 'range' as const,
+          value: selectedRange,
+          onChange: setSelectedRange,
+        }
+      : { value: selectedDate, onChange: setSelectedDate }
+
+  // Right-to-left scripts among the locales on offer
+  const dir = /^(ar|fa|he)\b/.test(locale) ? 'rtl' : 'ltr'
+
+  const formatMonth = (date: Date) =>
+    new Intl.DateTimeFormat(locale, {
+      day:
+        granularity === 'week' || granularity === 'day' ? 'numeric' : undefined,
+      month: granularity === 'year' ? undefined : 'long',
+      year: 'numeric',
+    }).format(date)
+
   return (
     <div className="flex h-dvh flex-col bg-gradient-to-br from-indigo-500 to-purple-600 p-6 dark:from-slate-800 dark:to-slate-900">
       {/* Header */}
@@ -32,20 +112,38 @@ function App() {
           {orientation === 'horizontal' ? (
             <DateSelector
               startDate={startDate}
-              value={selectedDate}
-              onChange={setSelectedDate}
+              {...selection}
               locale={locale}
+              dir={dir}
               orientation={orientation}
+              granularity={granularity}
+              scale={scale}
+              zoomable={zoomable}
+              events={showEvents ? sampleEvents : undefined}
+              onEventClick={(event) =>
+                mode === 'single' && setSelectedDate(event.date)
+              }
+              counts={showDensity ? sampleCounts : undefined}
+              showCountTooltips
               className="w-full"
             />
           ) : (
             <div className="h-full py-4">
               <DateSelector
                 startDate={startDate}
-                value={selectedDate}
-                onChange={setSelectedDate}
+                {...selection}
                 locale={locale}
+                dir={dir}
                 orientation={orientation}
+                granularity={granularity}
+                scale={scale}
+                zoomable={zoomable}
+                events={showEvents ? sampleEvents : undefined}
+                onEventClick={(event) =>
+                  mode === 'single' && setSelectedDate(event.date)
+                }
+                counts={showDensity ? sampleCounts : undefined}
+                showCountTooltips
               />
             </div>
           )}
@@ -79,6 +177,13 @@ function App() {
               <option value="ja-JP">Japanese</option>
               <option value="zh-CN">Chinese (Simplified)</option>
               <option value="nb-NO">Norwegian</option>
+              <option value="ja-JP-u-ca-japanese">Japanese (imperial)</option>
+              <option value="th-TH">Thai (Buddhist)</option>
+              <option value="fa-IR">Persian</option>
+              <option value="ar-EG">Arabic (Egypt)</option>
+              <option value="he-IL-u-ca-hebrew">
+                Hebrew (Hebrew calendar)
+              </option>
             </select>
           </div>
 
@@ -103,26 +208,131 @@ function App() {
             </select>
           </div>
 
+          {/* Mode select */}
+          <div className="mb-4">
+            <label
+              htmlFor="mode"
+              className="mb-1.5 block text-sm font-medium text-slate-600 dark:text-slate-400"
+            >
+              Mode
+            </label>
+            <select
+              id="mode"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as 'single' | 'range')}
+              className="w-full cursor-pointer rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100"
+            >
+              <option value="single">Single month</option>
+              <option value="range">Month range</option>
+            </select>
+          </div>
+
+          {/* Granularity select */}
+          <div className="mb-4">
+            <label
+              htmlFor="granularity"
+              className="mb-1.5 block text-sm font-medium text-slate-600 dark:text-slate-400"
+            >
+              Granularity
+            </label>
+            <select
+              id="granularity"
+              value={granularity}
+              onChange={(e) => setGranularity(e.target.value as Granularity)}
+              className="w-full cursor-pointer rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100"
+            >
+              <option value="year">Year</option>
+              <option value="quarter">Quarter</option>
+              <option value="month">Month</option>
+              <option value="week">Week</option>
+              <option value="day">Day</option>
+            </select>
+          </div>
+
+          {/* Scale select */}
+          <div className="mb-4">
+            <label
+              htmlFor="scale"
+              className="mb-1.5 block text-sm font-medium text-slate-600 dark:text-slate-400"
+            >
+              Scale
+            </label>
+            <select
+              id="scale"
+              value={scale}
+              onChange={(e) => setScale(e.target.value as TimelineScale)}
+              className="w-full cursor-pointer rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100"
+            >
+              <option value="equal">Equal years</option>
+              <option value="linear">Linear months</option>
+              <option value="weighted">Weighted by density</option>
+            </select>
+          </div>
+
+          {/* Density toggle */}
+          <div className="mb-4">
+            <label className="flex cursor-pointer items-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-400">
+              <input
+                type="checkbox"
+                checked={showDensity}
+                onChange={(e) => setShowDensity(e.target.checked)}
+                className="h-4 w-4 cursor-pointer accent-blue-500"
+              />
+              Show content density
+            </label>
+          </div>
+
+          {/* Events toggle */}
+          <div className="mb-4">
+            <label className="flex cursor-pointer items-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-400">
+              <input
+                type="checkbox"
+                checked={showEvents}
+                onChange={(e) => setShowEvents(e.target.checked)}
+                className="h-4 w-4 cursor-pointer accent-blue-500"
+              />
+              Show life events
+            </label>
+          </div>
+
+          {/* Zoom toggle */}
+          <div className="mb-4">
+            <label className="flex cursor-pointer items-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-400">
+              <input
+                type="checkbox"
+                checked={zoomable}
+                onChange={(e) => setZoomable(e.target.checked)}
+                className="h-4 w-4 cursor-pointer accent-blue-500"
+              />
+              Zoom and pan
+            </label>
+          </div>
+
           {/* Selected value display */}
           <div>
             <h3 className="mb-2 text-sm font-medium text-slate-600 dark:text-slate-400">
-              Selected month
+              {mode === 'range' ? 'Selected range' : 'Selected date'}
             </h3>
             <code className="block break-all rounded-md bg-slate-100 px-3 py-2.5 text-sm text-slate-600 dark:bg-slate-700 dark:text-slate-400">
-              {selectedDate
-                ? new Intl.DateTimeFormat(locale, {
-                    month: 'long',
-                    year: 'numeric',
-                  }).format(selectedDate)
-                : 'null'}
+              {mode === 'range'
+                ? selectedRange
+                  ? `${formatMonth(selectedRange.start)} – ${formatMonth(selectedRange.end)}`
+                  : 'null'
+                : selectedDate
+                  ? formatMonth(selectedDate)
+                  : 'null'}
             </code>
           </div>
 
           {/* Clear button */}
-          {selectedDate && (
+          {(mode === 'range' ? selectedRange : selectedDate) && (
             <button
               type="button"
-              onClick={() => setSelectedDate(null)}
+              onClick={() =>
+                mode === 'range'
+                  ? setSelectedRange(null)
+                  : setSelectedDate(null)
+              }
               className="mt-4 w-full rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600 transition-colors hover:bg-slate-100 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600"
             >
               Clear selection
@@ -1,432 +1,1973 @@
-import { useState, useCallback, useMemo, useRef, useEffect } from 'react'
-
-export interface DateSelectorProps {
-  /** The start date for the timeline (required) */
-  startDate: Date
-  /** The end date for the timeline (defaults to today) */
-  endDate?: Date
-  /** The currently selected month */
-  value?: Date | null
-  /** Callback when a month is selected */
-  onChange?: (date: Date | null) => void
-  /** Orientation of the timeline bar */
-  orientation?: 'horizontal' | 'vertical'
-  /** Sort order for dates (default: 'descending' - newest first) */
-  sort?: 'ascending' | 'descending'
-  /** Locale for formatting (default: 'en-US') */
-  locale?: string
+import {
+  forwardRef,
+  memo,
+  useState,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useLayoutEffect,
+  type ReactNode,
+} from 'react'
+import { createPortal } from 'react-dom'
+import { getNumberFormat } from './format'
+import {
+  getPopupSides,
+  placePopup,
+  type AnchorBox,
+  type Placement,
+  type PopupPosition,
+} from './placement'
+import {
+  formatPeriod,
+  getEventPeriod,
+  getYearLabels,
+  isWithin,
+  overlaps,
+  type DateRange,
+  type DensityCell,
+  type EventMark,
+  type Period,
+  type PeriodItem,
+  type PopupLevel,
+  type TimelineEvent,
+  type ViewWindow,
+  type YearSegment,
+} from './timeline'
+import {
+  useDateSelector,
+  type DateSelectorPopupProps,
+  type MonthPreview,
+  type MultipleDateSelectorOptions,
+  type MultipleStringDateSelectorOptions,
+  type RangeDateSelectorOptions,
+  type RangeStringDateSelectorOptions,
+  type SingleDateSelectorOptions,
+  type SingleStringDateSelectorOptions,
+} from './useDateSelector'
+import type { TimeZone } from './timeZone'
+import './styles.css'
+
+/** Props that only shape how `DateSelector` looks */
+interface DateSelectorDisplayProps {
+  /** Show each month's item count as a tooltip on the density overlay */
+  showCountTooltips?: boolean
+  /** Callback when an event marker is clicked */
+  onEventClick?: (event: TimelineEvent) => void
+  /** Render the mark for a year on the bar */
+  renderYearTick?: (state: YearTickState) => ReactNode
+  /** Render a year label beside the bar */
+  renderYearLabel?: (state: YearLabelState) => ReactNode
+  /** Render a tick in the popup, whether a quarter, month, week or day */
+  renderMonthTick?: (state: MonthTickState) => ReactNode
+  /**
+   * Render what `loadMonthPreview` loads for the previewed month, shown in the
+   * popup under its ticks, in whichever state it is in
+   */
+  renderMonthPreview?: (preview: MonthPreview) => ReactNode
+  /** Render the popup around its default content */
+  renderPopup?: (state: PopupState) => ReactNode
+  /** Render the selected date indicator */
+  renderSelection?: (state: SelectionState) => ReactNode
+  /**
+   * Side of the bar the popup opens on (default: 'auto'). It flips to the
+   * other side and shifts along it to stay inside the viewport.
+   */
+  placement?: Placement
+  /**
+   * Element the popup is rendered into, clear of any clipping parents
+   * (default: document.body). Null renders it in place.
+   */
+  portalContainer?: Element | null
+  /**
+   * Show a button clearing the selection (default: true unless `required`).
+   * Delete and Backspace on the bar clear it either way.
+   */
+  clearable?: boolean
+  /**
+   * Light or dark colours, or 'auto' to follow the system (default: 'auto').
+   * Set on the selector and its popup as `data-color-scheme`.
+   */
+  colorScheme?: 'light' | 'dark' | 'auto'
+  /** Values for the theme's custom properties, e.g. `{ accent: '#e11d48' }` */
+  theme?: DateSelectorTheme
+  /**
+   * Leave out the default classes, keeping only `classNames`, `className`,
+   * the inline positions and the `data-part` and `data-state` attributes
+   */
+  unstyled?: boolean
+  /**
+   * Draw the density overlay, year ticks and event markers on a canvas
+   * rather than as elements, for ranges of hundreds of years or thousands of
+   * events (default: 'dom'). Drawn markers can't be clicked, and year ticks
+   * stay elements when rendered or toggled in multiple mode.
+   */
+  trackRenderer?: 'dom' | 'canvas'
+  /** Extra classes for each part, added to its default classes */
+  classNames?: DateSelectorClassNames
   /** Custom class name */
   className?: string
 }
 
-interface MonthSelectorProps {
+export interface SingleDateSelectorProps
+  extends SingleDateSelectorOptions, DateSelectorDisplayProps {}
+
+export interface SingleStringDateSelectorProps
+  extends SingleStringDateSelectorOptions, DateSelectorDisplayProps {}
+
+export interface RangeDateSelectorProps
+  extends RangeDateSelectorOptions, DateSelectorDisplayProps {}
+
+export interface RangeStringDateSelectorProps
+  extends RangeStringDateSelectorOptions, DateSelectorDisplayProps {}
+
+export interface MultipleDateSelectorProps
+  extends MultipleDateSelectorOptions, DateSelectorDisplayProps {}
+
+export interface MultipleStringDateSelectorProps
+  extends MultipleStringDateSelectorOptions, DateSelectorDisplayProps {}
+
+export type DateSelectorProps =
+  | SingleDateSelectorProps
+  | SingleStringDateSelectorProps
+  | RangeDateSelectorProps
+  | RangeStringDateSelectorProps
+  | MultipleDateSelectorProps
+  | MultipleStringDateSelectorProps
+
+/** Methods reached through a ref to `DateSelector` */
+export interface DateSelectorHandle {
+  /** Move focus to the bar */
+  focus: () => void
+  /** Clear the selection */
+  clear: () => void
+  /** Start stepping the selection along the bar, when `playing` is left out */
+  play: () => void
+  /** Stop playback, when `playing` is left out */
+  pause: () => void
+}
+
+/**
+ * Parts of the selector, which take extra classes through `classNames` and
+ * carry their name in `data-part`
+ */
+export type DateSelectorPart =
+  | 'root'
+  | 'bar'
+  | 'track'
+  | 'trackCanvas'
+  | 'densityCell'
+  | 'highlight'
+  | 'gap'
+  | 'yearTick'
+  | 'yearLabel'
+  | 'popup'
+  | 'popupTitle'
+  | 'backButton'
+  | 'popupTrack'
+  | 'monthTick'
+  | 'popupLabel'
+  | 'monthPreview'
+  | 'eventMarker'
+  | 'currentIndicator'
+  | 'playhead'
+  | 'scrubIndicator'
+  | 'minimap'
+  | 'minimapTrack'
+  | 'minimapYear'
+  | 'minimapWindow'
+  | 'minimapLabel'
+  | 'selection'
+  | 'clearButton'
+
+export type DateSelectorClassNames = Partial<Record<DateSelectorPart, string>>
+
+/** Custom properties of the theme, each set as `--ds-<kebab-case name>` */
+export type DateSelectorThemeVariable =
+  | 'track'
+  | 'tick'
+  | 'tickHover'
+  | 'tickDisabled'
+  | 'accent'
+  | 'accentMuted'
+  | 'accentSoft'
+  | 'highlight'
+  | 'density'
+  | 'event'
+  | 'current'
+  | 'background'
+  | 'text'
+  | 'textMuted'
+  | 'popupBg'
+  | 'popupBorder'
+  | 'popupShadow'
+  | 'tooltipBg'
+  | 'tooltipText'
+  | 'trackSize'
+  | 'trackRadius'
+  | 'yearTickSize'
+  | 'monthTickSize'
+  | 'dayTickSize'
+  | 'popupPadding'
+  | 'radius'
+
+export type DateSelectorTheme = Partial<
+  Record<DateSelectorThemeVariable, string>
+>
+
+export interface YearTickState {
   year: number
-  position: { x: number; y: number }
+  /** Offset along the bar, in percent */
+  position: number
+  selected: boolean
+  hovered: boolean
+  orientation: 'horizontal' | 'vertical'
+}
+
+export interface YearLabelState {
+  year: number
+  /** The year as the locale writes it, e.g. "2019" or "۱۳۹۸" */
+  label: string
+  /** Offset along the bar, in percent */
+  position: number
+  orientation: 'horizontal' | 'vertical'
+}
+
+export interface MonthTickState {
+  /** Full name, e.g. "March 2019" */
+  label: string
+  /** Short name, e.g. "Mar" or "Q1" */
+  name: string
+  start: Date
+  end: Date
+  index: number
+  /** Offset along the popup bar, in percent */
+  position: number
+  selected: boolean
+  hovered: boolean
+  inRange: boolean
+  disabled: boolean
+  /** Item count for the period, when densities are known at this level */
+  count: number | null
+  orientation: 'horizontal' | 'vertical'
+}
+
+export interface PopupState {
+  title: string
+  /** The unit of the ticks, or null when picking years and there are none */
+  level: PopupLevel | null
+  /** The period label under the ticks, e.g. "Mar · 42" */
+  label: string | null
+  /** Goes back up to the months while drilled down */
+  onBack?: () => void
+  /** The default title, ticks, label and month preview */
+  content: ReactNode
+}
+
+export interface SelectionState {
+  /** The selected day in the time zone, in single mode */
+  value: Date | null
+  /** The selected days in the time zone, in range mode */
+  range: DateRange | null
+  /** The selected days in the time zone, in multiple mode */
+  values: Date[]
+  /** The default text, e.g. "March 2019" */
+  label: string
+}
+
+const NO_CLASS_NAMES: DateSelectorClassNames = {}
+const NO_YEARS: YearSegment[] = []
+
+/** Set on the root and popup, as parts of other libraries share the names */
+const SCOPE = 'date-selector'
+
+/** The names of the states that hold, for `data-state`, e.g. "selected" */
+function getDataState(states: Record<string, boolean>) {
+  const names = Object.keys(states).filter((name) => states[name])
+  return names.length > 0 ? names.join(' ') : undefined
+}
+
+/** A theme as inline custom properties, e.g. `{ '--ds-accent': 'red' }` */
+function getThemeStyle(theme: DateSelectorTheme | undefined) {
+  if (!theme) {
+    return undefined
+  }
+  const style: Record<string, string> = {}
+  for (const [name, value] of Object.entries(theme)) {
+    if (value !== undefined) {
+      style[`--ds-${name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`] =
+        value
+    }
+  }
+  return style as React.CSSProperties
+}
+
+// Dragged like the bar, so touch mustn't pan the page in any mode
+const MINIMAP_TRACK_STYLE: React.CSSProperties = { touchAction: 'none' }
+
+// Centres an element on its offset along a horizontal bar, either way round
+const CENTER_X = '-translate-x-1/2 rtl:translate-x-1/2'
+
+/** Least distance between year labels in pixels, by bar orientation */
+const YEAR_LABEL_SPACING = { horizontal: 40, vertical: 20 }
+
+interface MonthSelectorProps {
+  title: string
+  level: PopupLevel | null
+  items: PeriodItem[]
+  getAnchor: () => AnchorBox | null
+  placement: Placement
+  portalContainer?: Element | null
   orientation: 'horizontal' | 'vertical'
+  dir: 'ltr' | 'rtl'
   sort: 'ascending' | 'descending'
   locale: string
-  selectedMonth: number | null
-  hoveredFromBar: number | null
-  onSelect: (month: number) => void
-  onMouseEnter: () => void
-  onMouseLeave: () => void
-  startDate: Date
-  endDate: Date
+  /** First days of the selected periods */
+  selected: Date[]
+  range: Period | null
+  highlightedIndex: number | null
+  onSelect: (index: number) => void
+  onHighlight: (index: number | null) => void
+  onBack?: () => void
+  popupProps: DateSelectorPopupProps
+  maxCount: number
+  showCountTooltips: boolean
+  events: TimelineEvent[]
+  timeZone: TimeZone
+  onEventClick?: (event: TimelineEvent) => void
+  renderMonthTick?: (state: MonthTickState) => ReactNode
+  preview: MonthPreview | null
+  renderMonthPreview?: (preview: MonthPreview) => ReactNode
+  renderPopup?: (state: PopupState) => ReactNode
+  colorScheme: 'light' | 'dark' | 'auto'
+  themeStyle?: React.CSSProperties
+  unstyled: boolean
+  classNames: DateSelectorClassNames
 }
 
-function MonthSelector({
-  year,
-  position,
+interface DensityLayerProps {
+  cells: DensityCell[]
+  maxCount: number
+  orientation: 'horizontal' | 'vertical'
+  showTooltips: boolean
+  unstyled: boolean
+  className?: string
+}
+
+// Memoised, as there can be thousands of cells that hovering leaves as they are
+const DensityLayer = memo(function DensityLayer({
+  cells,
+  maxCount,
   orientation,
-  sort,
-  locale,
-  selectedMonth,
-  hoveredFromBar,
-  onSelect,
-  onMouseEnter,
-  onMouseLeave,
-  startDate,
-  endDate,
-}: MonthSelectorProps) {
-  const [hoveredMonth, setHoveredMonth] = useState<number | null>(null)
-
-  // Use local hover state if hovering directly on popup, otherwise use bar hover
-  const displayedHoverMonth = hoveredMonth ?? hoveredFromBar
-
-  const months = useMemo(() => {
-    const formatter = new Intl.DateTimeFormat(locale, { month: 'short' })
-    return Array.from({ length: 12 }, (_, i) => {
-      const date = new Date(year, i, 1)
-      return {
-        index: i,
-        name: formatter.format(date),
-        disabled:
-          date < new Date(startDate.getFullYear(), startDate.getMonth(), 1) ||
-          date > new Date(endDate.getFullYear(), endDate.getMonth(), 1),
+  showTooltips,
+  unstyled,
+  className = '',
+}: DensityLayerProps) {
+  const isHorizontal = orientation === 'horizontal'
+
+  return (
+    <div
+      className={
+        unstyled
+          ? undefined
+          : 'absolute inset-0 overflow-hidden rounded-[--ds-track-radius]'
       }
-    })
-  }, [year, locale, startDate, endDate])
-
-  const containerStyle: React.CSSProperties =
-    orientation === 'horizontal'
-      ? {
-          position: 'absolute',
-          left: position.x,
-          bottom: '100%',
-          transform: 'translateX(-50%)',
-          marginBottom: 8,
-        }
-      : {
-          position: 'absolute',
-          top: position.y,
-          left: '100%',
-          transform: 'translateY(-50%)',
-          marginLeft: 8,
+      aria-hidden="true"
+    >
+      {cells.map((cell) => {
+        const style: React.CSSProperties = isHorizontal
+          ? { insetInlineStart: `${cell.start}%`, width: `${cell.size}%` }
+          : { top: `${cell.start}%`, height: `${cell.size}%` }
+
+        // Empty months keep the bare track; the rest scale from faint to solid
+        if (cell.count > 0) {
+          style.opacity = 0.25 + 0.75 * (cell.count / maxCount)
         }
 
+        return (
+          <div
+            key={cell.key}
+            data-part="densityCell"
+            data-state={getDataState({ empty: cell.count === 0 })}
+            className={`${
+              unstyled
+                ? ''
+                : `absolute ${isHorizontal ? 'inset-y-0' : 'inset-x-0'} ${
+                    cell.count > 0 ? 'bg-[--ds-density]' : ''
+                  }`
+            } ${className}`}
+            style={style}
+            title={showTooltips ? cell.label : undefined}
+          />
+        )
+      })}
+    </div>
+  )
+})
+
+interface EventMarkerProps {
+  mark: EventMark
+  orientation: 'horizontal' | 'vertical'
+  /** Draw points as dots beside the track, keeping the ticks under them clear */
+  pointsBeside?: boolean
+  onClick?: (event: TimelineEvent) => void
+  unstyled: boolean
+  className?: string
+}
+
+function EventMarker({
+  mark,
+  orientation,
+  pointsBeside = false,
+  onClick,
+  unstyled,
+  className = '',
+}: EventMarkerProps) {
+  const { event, start, size } = mark
   const isHorizontal = orientation === 'horizontal'
 
+  const style: React.CSSProperties = isHorizontal
+    ? {
+        insetInlineStart: `${start}%`,
+        width: size !== null ? `${size}%` : undefined,
+      }
+    : { top: `${start}%`, height: size !== null ? `${size}%` : undefined }
+  if (event.color) {
+    style.backgroundColor = event.color
+  }
+
+  // Points cross the track; spans run alongside it, clear of the popup
+  const shapeClasses =
+    size !== null
+      ? isHorizontal
+        ? 'top-full mt-0.5 h-1'
+        : 'right-full mr-0.5 w-1'
+      : pointsBeside
+        ? isHorizontal
+          ? `bottom-full mb-1 h-1.5 w-1.5 ${CENTER_X}`
+          : 'left-full ml-1 h-1.5 w-1.5 -translate-y-1/2'
+        : isHorizontal
+          ? `top-1/2 h-4 w-1 ${CENTER_X} -translate-y-1/2`
+          : 'left-1/2 h-1 w-4 -translate-x-1/2 -translate-y-1/2'
+
   return (
-    <div
-      style={containerStyle}
-      className="z-50 rounded-lg border border-slate-200 bg-white p-3 shadow-lg dark:border-slate-600 dark:bg-slate-800"
-      onMouseEnter={onMouseEnter}
-      onMouseLeave={onMouseLeave}
-    >
-      {/* Year label */}
-      <div
-        className={`text-center text-sm font-semibold text-slate-700 dark:text-slate-200 ${isHorizontal ? 'mb-2' : 'mb-2'}`}
-      >
-        {year}
-      </div>
+    <button
+      type="button"
+      tabIndex={-1}
+      data-part="eventMarker"
+      data-state={size !== null ? 'span' : 'point'}
+      className={`${
+        unstyled
+          ? ''
+          : `absolute rounded-full ${shapeClasses} ${
+              event.color ? '' : 'bg-[--ds-event]'
+            } ${onClick ? 'cursor-pointer hover:brightness-110' : 'cursor-default'}`
+      } ${className}`}
+      style={style}
+      title={event.label}
+      aria-label={event.label}
+      // Markers are clicked rather than scrubbed or panned from
+      onPointerDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        e.stopPropagation()
+        onClick?.(event)
+      }}
+    />
+  )
+}
 
-      {/* Month bar */}
-      <div
-        className={`relative flex cursor-pointer items-center ${
-          isHorizontal ? 'h-8 w-48' : 'h-48 w-8 flex-col'
-        }`}
-      >
-        {/* Background bar */}
-        <div
-          className={`relative rounded-full bg-slate-200 dark:bg-slate-600 ${
-            isHorizontal ? 'h-2 w-full' : 'h-full w-2'
-          }`}
-        >
-          {/* Month tick marks */}
-          {months.map((month) => {
-            const basePos = (month.index / 12) * 100
-            const pos = sort === 'descending' ? 100 - basePos - 100 / 12 : basePos
-            const isSelected = selectedMonth === month.index
-            const isHovered = displayedHoverMonth === month.index
+interface EventMarkersProps extends Omit<EventMarkerProps, 'mark'> {
+  marks: EventMark[]
+}
 
-            const tickStyle: React.CSSProperties = isHorizontal
-              ? { left: `${pos}%` }
-              : { top: `${pos}%` }
+// Memoised like the density layer, for long lists of events
+const EventMarkers = memo(function EventMarkers({
+  marks,
+  ...props
+}: EventMarkersProps) {
+  return marks.map((mark) => (
+    <EventMarker key={mark.key} mark={mark} {...props} />
+  ))
+})
 
-            return (
-              <button
-                key={month.index}
-                type="button"
-                disabled={month.disabled}
-                onClick={() => onSelect(month.index)}
-                onMouseEnter={() => setHoveredMonth(month.index)}
-                onMouseLeave={() => setHoveredMonth(null)}
-                className={`absolute h-3 w-3 rounded-full transition-all ${
-                  isHorizontal
-                    ? '-translate-x-1/2 -translate-y-1/2 top-1/2'
-                    : '-translate-x-1/2 -translate-y-1/2 left-1/2'
-                } ${
-                  month.disabled
-                    ? 'cursor-not-allowed bg-slate-300 dark:bg-slate-700'
-                    : isSelected
-                      ? 'bg-blue-500 dark:bg-blue-400 scale-125'
-                      : isHovered
-                        ? 'bg-slate-500 dark:bg-slate-400 scale-110'
-                        : 'bg-slate-400 dark:bg-slate-500 hover:scale-110'
-                }`}
-                style={tickStyle}
-                aria-label={month.name}
-              />
-            )
-          })}
-        </div>
-      </div>
+interface YearTicksProps {
+  years: YearSegment[]
+  toViewPercent: (ratio: number) => number
+  orientation: 'horizontal' | 'vertical'
+  /** The selected years, from the first to the last, outside multiple mode */
+  firstSelectedYear: number | null
+  lastSelectedYear: number | null
+  hoverYear: number | null
+  /** How much of each year is selected, in multiple mode */
+  getYearSelection?: (year: number) => 'all' | 'some' | 'none'
+  /** Select or deselect a year from its tick, in multiple mode */
+  onToggle?: (year: number) => void
+  formatYear: (year: number) => string
+  renderYearTick?: (state: YearTickState) => ReactNode
+  unstyled: boolean
+  className?: string
+}
+
+// Memoised, so hovering within a year leaves the ticks as they are
+const YearTicks = memo(function YearTicks({
+  years,
+  toViewPercent,
+  orientation,
+  firstSelectedYear,
+  lastSelectedYear,
+  hoverYear,
+  getYearSelection,
+  onToggle,
+  formatYear,
+  renderYearTick,
+  unstyled,
+  className = '',
+}: YearTicksProps) {
+  const isHorizontal = orientation === 'horizontal'
+
+  return years.map(({ year, start }) => {
+    const position = toViewPercent(start)
+    const yearSelection = getYearSelection ? getYearSelection(year) : null
+    const isSelected = yearSelection
+      ? yearSelection !== 'none'
+      : firstSelectedYear !== null &&
+        lastSelectedYear !== null &&
+        year >= firstSelectedYear &&
+        year <= lastSelectedYear
+    const isHovered = year === hoverYear
+
+    const tickStyle: React.CSSProperties = isHorizontal
+      ? { insetInlineStart: `${position}%` }
+      : { top: `${position}%` }
 
-      {/* Month label */}
+    return (
       <div
-        className={`text-center text-xs text-slate-500 dark:text-slate-400 ${isHorizontal ? 'mt-2' : 'mt-2'}`}
+        key={year}
+        aria-hidden="true"
+        data-part="yearTick"
+        data-state={getDataState({
+          selected: isSelected,
+          partial: yearSelection === 'some',
+          hovered: isHovered,
+        })}
+        className={`${
+          unstyled
+            ? ''
+            : `absolute ${isHorizontal ? CENTER_X : '-translate-y-1/2'} ${
+                onToggle ? 'cursor-pointer hover:scale-150' : ''
+              }`
+        } ${
+          renderYearTick || unstyled
+            ? ''
+            : `h-[--ds-year-tick-size] w-[--ds-year-tick-size] rounded-full transition-all ${
+                isSelected
+                  ? 'bg-[--ds-accent]'
+                  : isHovered
+                    ? 'bg-[--ds-tick-hover]'
+                    : 'bg-[--ds-tick]'
+              }`
+        } ${className}`}
+        style={tickStyle}
+        title={
+          onToggle
+            ? `${yearSelection === 'all' ? 'Deselect' : 'Select'} all of ${formatYear(year)}`
+            : undefined
+        }
+        // Ticks are clicked rather than scrubbed or panned from
+        onPointerDown={onToggle ? (e) => e.stopPropagation() : undefined}
+        onClick={
+          onToggle
+            ? (e) => {
+                e.stopPropagation()
+                onToggle(year)
+              }
+            : undefined
+        }
       >
-        {displayedHoverMonth !== null
-          ? months[displayedHoverMonth].name
-          : selectedMonth !== null
-            ? months[selectedMonth].name
-            : '\u00A0'}
+        {renderYearTick?.({
+          year,
+          position,
+          selected: isSelected,
+          hovered: isHovered,
+          orientation,
+        })}
       </div>
-    </div>
-  )
+    )
+  })
+})
+
+/** Theme colours the canvas track reads, with the light defaults */
+const CANVAS_COLORS = {
+  tick: '#94a3b8',
+  'tick-hover': '#64748b',
+  accent: '#3b82f6',
+  density: '#0ea5e9',
+  event: '#f59e0b',
 }
 
-export function DateSelector({
-  startDate,
-  endDate: endDateProp,
-  value,
-  onChange,
-  orientation = 'vertical',
-  sort = 'descending',
-  locale = 'en-US',
+interface CanvasTrackProps {
+  cells: DensityCell[] | null
+  maxCount: number
+  /** Years to draw ticks for, or none when they are elements instead */
+  years: YearSegment[]
+  toViewPercent: (ratio: number) => number
+  firstSelectedYear: number | null
+  lastSelectedYear: number | null
+  hoverYear: number | null
+  marks: EventMark[]
+  orientation: 'horizontal' | 'vertical'
+  dir: 'ltr' | 'rtl'
+  /** Read only to draw again when the colours change */
+  colorScheme: 'light' | 'dark' | 'auto'
+  themeStyle?: React.CSSProperties
+  unstyled: boolean
+  className?: string
+}
+
+/**
+ * The density overlay, year ticks and event markers drawn on one canvas, for
+ * ranges too long to keep an element for each. It reaches a little past the
+ * track on either side, where the event markers are drawn.
+ */
+const CanvasTrack = memo(function CanvasTrack({
+  cells,
+  maxCount,
+  years,
+  toViewPercent,
+  firstSelectedYear,
+  lastSelectedYear,
+  hoverYear,
+  marks,
+  orientation,
+  dir,
+  colorScheme,
+  themeStyle,
+  unstyled,
   className = '',
-}: DateSelectorProps) {
-  const endDate = useMemo(() => endDateProp || new Date(), [endDateProp])
-  const containerRef = useRef<HTMLDivElement>(null)
-  const closeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-  const [hoverYear, setHoverYear] = useState<number | null>(null)
-  const [hoverMonth, setHoverMonth] = useState<number | null>(null)
-  const [hoverPosition, setHoverPosition] = useState({ x: 0, y: 0 })
-  const [isPopupHovered, setIsPopupHovered] = useState(false)
-
-  const years = useMemo(() => {
-    const startYear = startDate.getFullYear()
-    const endYear = endDate.getFullYear()
-    const result: number[] = []
-    for (let year = startYear; year <= endYear; year++) {
-      result.push(year)
+}: CanvasTrackProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const isHorizontal = orientation === 'horizontal'
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) {
+      return
     }
-    return sort === 'descending' ? result.reverse() : result
-  }, [startDate, endDate, sort])
-
-  const selectedYear = value?.getFullYear() ?? null
-  const selectedMonth = value?.getMonth() ?? null
-
-  const handleBarMouseMove = useCallback(
-    (e: React.MouseEvent<HTMLDivElement>) => {
-      // Cancel any pending close timeout when moving on bar
-      if (closeTimeoutRef.current) {
-        clearTimeout(closeTimeoutRef.current)
-        closeTimeoutRef.current = null
-      }
 
-      // Don't update position while interacting with the popup
-      if (isPopupHovered) {
-        return
-      }
+    const box = canvas.getBoundingClientRect()
+    const track = canvas.parentElement?.getBoundingClientRect() ?? box
+    const scale = window.devicePixelRatio || 1
+    canvas.width = Math.round(box.width * scale)
+    canvas.height = Math.round(box.height * scale)
+    context.setTransform(scale, 0, 0, scale, 0, 0)
+    context.clearRect(0, 0, box.width, box.height)
 
-      const rect = e.currentTarget.getBoundingClientRect()
-      let ratio: number
+    const styles = getComputedStyle(canvas)
+    const getColor = (name: keyof typeof CANVAS_COLORS) =>
+      styles.getPropertyValue(`--ds-${name}`).trim() || CANVAS_COLORS[name]
 
-      if (orientation === 'horizontal') {
-        ratio = (e.clientX - rect.left) / rect.width
-      } else {
-        ratio = (e.clientY - rect.top) / rect.height
-      }
+    // Offsets along the track, and across it, from the canvas's corner
+    const length = isHorizontal ? track.width : track.height
+    const thickness = isHorizontal ? track.height : track.width
+    const alongStart = isHorizontal
+      ? track.left - box.left
+      : track.top - box.top
+    const acrossStart = isHorizontal
+      ? track.top - box.top
+      : track.left - box.left
+    const isMirrored = isHorizontal && dir === 'rtl'
+    const toOffset = (percent: number) =>
+      alongStart + (length * (isMirrored ? 100 - percent : percent)) / 100
 
-      ratio = Math.max(0, Math.min(1, ratio))
-      const yearIndex = Math.floor(ratio * years.length)
-      const clampedIndex = Math.min(yearIndex, years.length - 1)
-      const year = years[clampedIndex]
-
-      // Calculate which month within the year segment
-      const yearSegmentSize = 1 / years.length
-      const yearStartRatio = clampedIndex * yearSegmentSize
-      const positionWithinYear = (ratio - yearStartRatio) / yearSegmentSize
-      const baseMonthIndex = Math.min(Math.floor(positionWithinYear * 12), 11)
-      const monthIndex = sort === 'descending' ? 11 - baseMonthIndex : baseMonthIndex
-      setHoverMonth(monthIndex)
-
-      if (year !== hoverYear) {
-        setHoverYear(year)
+    // Fill a rounded box from `start` percent along the track for `size`
+    // percent (or `width` pixels centred on it), and `across` pixels in
+    const fillBox = (
+      start: number,
+      size: number | null,
+      across: number,
+      depth: number,
+      width = 0,
+      radius = Math.min(width || depth, depth) / 2
+    ) => {
+      const [from, to] =
+        size === null
+          ? [toOffset(start) - width / 2, toOffset(start) + width / 2]
+          : [toOffset(start), toOffset(start + size)].sort((a, b) => a - b)
+      const [x, y, w, h] = isHorizontal
+        ? [from, across, to - from, depth]
+        : [across, from, depth, to - from]
+      context.beginPath()
+      context.roundRect(x, y, w, h, radius)
+      context.fill()
+    }
+
+    if (cells) {
+      context.save()
+      context.beginPath()
+      context.roundRect(
+        track.left - box.left,
+        track.top - box.top,
+        track.width,
+        track.height,
+        thickness / 2
+      )
+      context.clip()
+      context.fillStyle = getColor('density')
+      for (const cell of cells) {
+        if (cell.count > 0) {
+          context.globalAlpha = 0.25 + 0.75 * (cell.count / maxCount)
+          fillBox(cell.start, cell.size, acrossStart, thickness, 0, 0)
+        }
       }
+      context.restore()
+    }
 
-      // Follow the cursor position along the bar's axis
-      if (orientation === 'horizontal') {
-        const cursorX = e.clientX - rect.left
-        setHoverPosition({ x: cursorX, y: 0 })
+    for (const { year, start } of years) {
+      const isSelected =
+        firstSelectedYear !== null &&
+        lastSelectedYear !== null &&
+        year >= firstSelectedYear &&
+        year <= lastSelectedYear
+      context.fillStyle = getColor(
+        isSelected ? 'accent' : year === hoverYear ? 'tick-hover' : 'tick'
+      )
+      fillBox(toViewPercent(start), null, acrossStart, thickness, thickness)
+    }
+
+    // Points cross the track, and spans run alongside it as in the elements
+    for (const { event, start, size } of marks) {
+      context.fillStyle = event.color ?? getColor('event')
+      if (size === null) {
+        fillBox(start, null, acrossStart + thickness / 2 - 8, 16, 4)
       } else {
-        const cursorY = e.clientY - rect.top
-        setHoverPosition({ x: 0, y: cursorY })
+        fillBox(
+          start,
+          size,
+          isHorizontal ? acrossStart + thickness + 2 : acrossStart - 6,
+          4
+        )
       }
-    },
-    [orientation, years, hoverYear, isPopupHovered]
+    }
+  }, [
+    cells,
+    maxCount,
+    years,
+    toViewPercent,
+    firstSelectedYear,
+    lastSelectedYear,
+    hoverYear,
+    marks,
+    isHorizontal,
+    dir,
+    colorScheme,
+    themeStyle,
+  ])
+
+  // Draw again as the canvas resizes or the system switches colour scheme
+  useLayoutEffect(() => {
+    draw()
+    const canvas = canvasRef.current
+    if (!canvas) {
+      return
+    }
+    const observer =
+      typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(draw)
+    observer?.observe(canvas)
+    const media = window.matchMedia?.('(prefers-color-scheme: dark)')
+    media?.addEventListener('change', draw)
+    return () => {
+      observer?.disconnect()
+      media?.removeEventListener('change', draw)
+    }
+  }, [draw])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      aria-hidden="true"
+      data-part="trackCanvas"
+      className={`${
+        unstyled
+          ? ''
+          : `pointer-events-none absolute ${
+              isHorizontal
+                ? '-top-2 left-0 h-[calc(100%+1rem)] w-full'
+                : '-left-2 top-0 h-full w-[calc(100%+1rem)]'
+            }`
+      } ${className}`}
+    />
   )
+})
 
-  const handleBarMouseLeave = useCallback(() => {
-    // Delay closing to give time to move to the popup
-    closeTimeoutRef.current = setTimeout(() => {
-      if (!isPopupHovered) {
-        setHoverYear(null)
+interface ScrubIndicatorProps {
+  label: string
+  position: { x: number; y: number }
+  orientation: 'horizontal' | 'vertical'
+  unstyled: boolean
+  className?: string
+}
+
+function ScrubIndicator({
+  label,
+  position,
+  orientation,
+  unstyled,
+  className = '',
+}: ScrubIndicatorProps) {
+  const isHorizontal = orientation === 'horizontal'
+  const style: React.CSSProperties = isHorizontal
+    ? {
+        position: 'absolute',
+        insetInlineStart: position.x,
+        bottom: '100%',
+        marginBottom: 8,
       }
-    }, 150)
-  }, [isPopupHovered])
-
-  const handlePopupMouseEnter = useCallback(() => {
-    // Cancel any pending close timeout
-    if (closeTimeoutRef.current) {
-      clearTimeout(closeTimeoutRef.current)
-      closeTimeoutRef.current = null
-    }
-    setIsPopupHovered(true)
-  }, [])
-
-  const handlePopupMouseLeave = useCallback(() => {
-    setIsPopupHovered(false)
-    setHoverYear(null)
-  }, [])
-
-  const handleMonthSelect = useCallback(
-    (month: number) => {
-      if (hoverYear !== null) {
-        const selectedDate = new Date(hoverYear, month, 1)
-        onChange?.(selectedDate)
+    : {
+        position: 'absolute',
+        top: position.y,
+        insetInlineStart: '100%',
+        transform: 'translateY(-50%)',
+        marginInlineStart: 8,
       }
+
+  return (
+    <div
+      data-part="scrubIndicator"
+      style={style}
+      className={`${
+        unstyled
+          ? ''
+          : `${isHorizontal ? CENTER_X : ''} pointer-events-none z-50 whitespace-nowrap rounded-md bg-[--ds-tooltip-bg] px-3 py-1.5 text-sm font-medium text-[--ds-tooltip-text] shadow-lg`
+      } ${className}`}
+      aria-hidden="true"
+    >
+      {label}
+    </div>
+  )
+}
+
+interface TimelineMinimapProps {
+  years: YearSegment[]
+  view: ViewWindow
+  /** The years in the window, e.g. "1994 – 2004" */
+  label: string
+  orientation: 'horizontal' | 'vertical'
+  dir: 'ltr' | 'rtl'
+  onViewChange: (view: ViewWindow) => void
+  unstyled: boolean
+  classNames: DateSelectorClassNames
+}
+
+function TimelineMinimap({
+  years,
+  view,
+  label,
+  orientation,
+  dir,
+  onViewChange,
+  unstyled,
+  classNames,
+}: TimelineMinimapProps) {
+  const isHorizontal = orientation === 'horizontal'
+  // Where in the window the drag grabbed it, as a layout ratio
+  const grabRef = useRef<number | null>(null)
+  const width = view.end - view.start
+
+  const getRatio = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return isHorizontal
+      ? dir === 'rtl'
+        ? (rect.right - e.clientX) / rect.width
+        : (e.clientX - rect.left) / rect.width
+      : (e.clientY - rect.top) / rect.height
+  }
+
+  // Grab the window where it was pressed, or centre it on the press
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const ratio = getRatio(e)
+    const isInside = ratio >= view.start && ratio <= view.end
+    grabRef.current = isInside ? ratio - view.start : width / 2
+    e.currentTarget.setPointerCapture(e.pointerId)
+    if (!isInside) {
+      onViewChange({ start: ratio - width / 2, end: ratio + width / 2 })
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (grabRef.current === null) {
+      return
+    }
+    const start = getRatio(e) - grabRef.current
+    onViewChange({ start, end: start + width })
+  }
+
+  const handlePointerUp = () => {
+    grabRef.current = null
+  }
+
+  const windowStyle: React.CSSProperties = isHorizontal
+    ? { insetInlineStart: `${view.start * 100}%`, width: `${width * 100}%` }
+    : { top: `${view.start * 100}%`, height: `${width * 100}%` }
+
+  return (
+    <div
+      data-part="minimap"
+      className={`${
+        unstyled
+          ? ''
+          : `flex items-center gap-2 ${
+              isHorizontal ? 'mt-2 w-full' : 'ms-2 h-full flex-col'
+            }`
+      } ${classNames.minimap ?? ''}`}
+    >
+      <div
+        data-part="minimapTrack"
+        className={`${
+          unstyled
+            ? ''
+            : `relative flex-1 cursor-pointer rounded-[--ds-track-radius] bg-[--ds-track] ${
+                isHorizontal ? 'h-[--ds-track-size]' : 'w-[--ds-track-size]'
+              }`
+        } ${classNames.minimapTrack ?? ''}`}
+        aria-hidden="true"
+        style={MINIMAP_TRACK_STYLE}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* Year boundaries */}
+        {years.map(({ year, start }) => (
+          <div
+            key={year}
+            data-part="minimapYear"
+            className={`${
+              unstyled
+                ? ''
+                : `absolute bg-[--ds-tick-disabled] ${
+                    isHorizontal ? 'inset-y-0 w-px' : 'inset-x-0 h-px'
+                  }`
+            } ${classNames.minimapYear ?? ''}`}
+            style={
+              isHorizontal
+                ? { insetInlineStart: `${start * 100}%` }
+                : { top: `${start * 100}%` }
+            }
+          />
+        ))}
+
+        {/* Visible window */}
+        <div
+          data-part="minimapWindow"
+          className={`${
+            unstyled
+              ? ''
+              : `absolute rounded-[--ds-track-radius] border border-[--ds-accent] bg-[--ds-accent-soft] ${
+                  isHorizontal ? 'inset-y-0' : 'inset-x-0'
+                }`
+          } ${classNames.minimapWindow ?? ''}`}
+          style={windowStyle}
+        />
+      </div>
+
+      <span
+        data-part="minimapLabel"
+        className={`${
+          unstyled ? '' : 'whitespace-nowrap text-xs text-[--ds-text-muted]'
+        } ${classNames.minimapLabel ?? ''}`}
+      >
+        {label}
+      </span>
+    </div>
+  )
+}
+
+function MonthSelector({
+  title,
+  level,
+  items,
+  getAnchor,
+  placement,
+  portalContainer,
+  orientation,
+  dir,
+  sort,
+  locale,
+  selected,
+  range,
+  highlightedIndex,
+  onSelect,
+  onHighlight,
+  onBack,
+  popupProps,
+  maxCount,
+  showCountTooltips,
+  events,
+  timeZone,
+  onEventClick,
+  renderMonthTick,
+  preview,
+  renderMonthPreview,
+  renderPopup,
+  colorScheme,
+  themeStyle,
+  unstyled,
+  classNames,
+}: MonthSelectorProps) {
+  const numberFormatter = getNumberFormat(locale)
+
+  const getPosition = useCallback(
+    (index: number) => {
+      const basePos = (index / items.length) * 100
+      return sort === 'descending'
+        ? 100 - basePos - 100 / items.length
+        : basePos
     },
-    [hoverYear, onChange]
+    [items.length, sort]
   )
 
-  // Close month selector when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (e: MouseEvent) => {
-      if (
-        containerRef.current &&
-        !containerRef.current.contains(e.target as Node)
-      ) {
-        setHoverYear(null)
-      }
+  const hasCounts = items.some((item) => item.count !== null)
+
+  const densityCells = useMemo(() => {
+    if (!hasCounts) {
+      return null
     }
 
-    document.addEventListener('mousedown', handleClickOutside)
-    return () => document.removeEventListener('mousedown', handleClickOutside)
-  }, [])
+    return items.flatMap((item, index) =>
+      item.disabled || item.count === null
+        ? []
+        : [
+            {
+              key: index,
+              start: getPosition(index),
+              size: 100 / items.length,
+              count: item.count,
+              label: `${item.label}: ${numberFormatter.format(item.count)}`,
+            },
+          ]
+    )
+  }, [hasCounts, items, getPosition, numberFormatter])
 
-  // Cleanup timeout on unmount
+  // Events on the ticks they fall on; spans run from their first tick to
+  // their last
+  const eventMarks = useMemo(
+    () =>
+      events.flatMap((event, key): EventMark[] => {
+        const period = getEventPeriod(event, timeZone)
+        const positions = items.flatMap((item, index) =>
+          overlaps(item, period) ? [getPosition(index)] : []
+        )
+        if (positions.length === 0) {
+          return []
+        }
+        const start = Math.min(...positions)
+        const end = Math.max(...positions)
+        return [
+          {
+            key,
+            event,
+            start,
+            size: event.end !== undefined && end > start ? end - start : null,
+          },
+        ]
+      }),
+    [events, timeZone, items, getPosition]
+  )
+
+  const isItemSelected = (item: PeriodItem) =>
+    selected.some((start) => isWithin(start, item))
+  const selectedIndex = items.findIndex(isItemSelected)
+  const labelItem = items[highlightedIndex ?? selectedIndex] as
+    PeriodItem | undefined
+  const labelEvents = labelItem
+    ? events.filter((event) =>
+        overlaps(labelItem, getEventPeriod(event, timeZone))
+      )
+    : []
+
+  const isHorizontal = orientation === 'horizontal'
+  const [node, setNode] = useState<HTMLElement | null>(null)
+  const [placed, setPlaced] = useState<PopupPosition | null>(null)
+  const { ref: popupRef } = popupProps
+  const ref = useCallback(
+    (element: HTMLDivElement | null) => {
+      popupRef(element)
+      setNode(element)
+    },
+    [popupRef]
+  )
+
+  // Place the popup by its measured size after every render, as the anchor
+  // and content move with the preview
+  const place = () => {
+    const anchor = getAnchor()
+    if (!node || !anchor) {
+      return
+    }
+    const next = placePopup(
+      anchor,
+      { width: node.offsetWidth, height: node.offsetHeight },
+      {
+        width: document.documentElement.clientWidth,
+        height: document.documentElement.clientHeight,
+      },
+      getPopupSides(placement, orientation, dir)
+    )
+    setPlaced((current) =>
+      current &&
+      current.side === next.side &&
+      current.left === next.left &&
+      current.top === next.top
+        ? current
+        : next
+    )
+  }
+  const placeRef = useRef(place)
+  useLayoutEffect(() => {
+    placeRef.current = place
+    place()
+  })
+
+  // And again on any scroll or resize, listening for as long as it is shown
   useEffect(() => {
+    if (!node) {
+      return
+    }
+    const onChange = () => placeRef.current()
+    window.addEventListener('scroll', onChange, {
+      capture: true,
+      passive: true,
+    })
+    window.addEventListener('resize', onChange)
     return () => {
-      if (closeTimeoutRef.current) {
-        clearTimeout(closeTimeoutRef.current)
-      }
+      window.removeEventListener('scroll', onChange, { capture: true })
+      window.removeEventListener('resize', onChange)
     }
-  }, [])
+  }, [node])
 
-  const isHorizontal = orientation === 'horizontal'
+  // Hidden until measured, which happens before the first paint
+  const containerStyle: React.CSSProperties = placed
+    ? { position: 'fixed', left: placed.left, top: placed.top }
+    : { position: 'fixed', left: 0, top: 0, visibility: 'hidden' }
+  // Days are packed tighter than the other levels
+  const isDense = items.length > 12
 
-  const containerClasses = isHorizontal
-    ? 'relative flex w-full min-w-64 flex-col'
-    : 'relative flex h-full min-h-64 flex-row'
+  const label = labelItem
+    ? [
+        labelItem.name,
+        labelItem.count !== null && numberFormatter.format(labelItem.count),
+        labelEvents.map((event) => event.label).join(', '),
+      ]
+        .filter(Boolean)
+        .join(' · ')
+    : null
 
-  const barContainerClasses = isHorizontal
-    ? 'relative flex h-16 w-full cursor-pointer items-center'
-    : 'relative flex h-full w-16 cursor-pointer flex-col items-center'
+  const content = (
+    <>
+      {/* Title, with a way back up while drilled down */}
+      <div
+        data-part="popupTitle"
+        className={`${
+          unstyled
+            ? ''
+            : `flex items-center justify-center gap-1 text-center text-sm font-semibold text-[--ds-text] ${items.length > 0 ? 'mb-2' : ''}`
+        } ${classNames.popupTitle ?? ''}`}
+      >
+        {onBack && (
+          <button
+            type="button"
+            tabIndex={-1}
+            data-part="backButton"
+            onClick={onBack}
+            className={`${
+              unstyled
+                ? ''
+                : 'rounded px-1 text-[--ds-text-muted] hover:text-[--ds-text]'
+            } ${classNames.backButton ?? ''}`}
+            aria-label="Back to months"
+          >
+            ‹
+          </button>
+        )}
+        <span className={unstyled ? undefined : 'whitespace-nowrap'}>
+          {title}
+        </span>
+      </div>
 
-  const barClasses = isHorizontal
-    ? 'relative h-2 w-full rounded-full bg-slate-200 dark:bg-slate-600'
-    : 'relative h-full w-2 rounded-full bg-slate-200 dark:bg-slate-600'
+      {items.length > 0 && (
+        <>
+          {/* Period bar */}
+          <div
+            className={
+              unstyled
+                ? undefined
+                : `relative flex cursor-pointer items-center ${
+                    isHorizontal ? 'h-8 w-48' : 'h-48 w-8 flex-col'
+                  }`
+            }
+          >
+            {/* Background bar */}
+            <div
+              data-part="popupTrack"
+              className={`${
+                unstyled
+                  ? ''
+                  : `relative rounded-[--ds-track-radius] bg-[--ds-track] ${
+                      isHorizontal
+                        ? 'h-[--ds-track-size] w-full'
+                        : 'h-full w-[--ds-track-size]'
+                    }`
+              } ${classNames.popupTrack ?? ''}`}
+            >
+              {densityCells && (
+                <DensityLayer
+                  cells={densityCells}
+                  maxCount={maxCount}
+                  orientation={orientation}
+                  showTooltips={showCountTooltips}
+                  unstyled={unstyled}
+                  className={classNames.densityCell}
+                />
+              )}
 
-  const labelsContainerClasses = isHorizontal
-    ? 'relative mt-1 flex h-6 w-full justify-between'
-    : 'relative ml-1 flex h-full w-6 flex-col justify-between'
+              {/* Period tick marks */}
+              {items.map((item, index) => {
+                const pos = getPosition(index)
+                const isSelected =
+                  isItemSelected(item) ||
+                  (range !== null &&
+                    (isWithin(range.start, item) || isWithin(range.end, item)))
+                const isInRange =
+                  range !== null &&
+                  item.start > range.start &&
+                  item.end < range.end
+                const isHovered = highlightedIndex === index
+                const isEmpty = item.count === 0
 
-  return (
+                const tickStyle: React.CSSProperties = isHorizontal
+                  ? { insetInlineStart: `${pos}%` }
+                  : { top: `${pos}%` }
+
+                return (
+                  <button
+                    key={item.start.getTime()}
+                    type="button"
+                    tabIndex={-1}
+                    disabled={item.disabled}
+                    onClick={() => onSelect(index)}
+                    onMouseEnter={() => onHighlight(index)}
+                    onMouseLeave={() => onHighlight(null)}
+                    data-part="monthTick"
+                    data-state={getDataState({
+                      selected: isSelected,
+                      hovered: isHovered,
+                      'in-range': isInRange,
+                      empty: isEmpty,
+                      disabled: item.disabled,
+                    })}
+                    className={`${
+                      unstyled
+                        ? ''
+                        : `absolute ${
+                            isHorizontal
+                              ? `${CENTER_X} -translate-y-1/2 top-1/2`
+                              : '-translate-x-1/2 -translate-y-1/2 left-1/2'
+                          }`
+                    } ${
+                      renderMonthTick || unstyled
+                        ? ''
+                        : `rounded-full transition-all ${
+                            isDense
+                              ? 'h-[--ds-day-tick-size] w-[--ds-day-tick-size]'
+                              : 'h-[--ds-month-tick-size] w-[--ds-month-tick-size]'
+                          } ${
+                            item.disabled
+                              ? 'cursor-not-allowed bg-[--ds-tick-disabled]'
+                              : isSelected
+                                ? 'bg-[--ds-accent] scale-125'
+                                : isHovered
+                                  ? 'bg-[--ds-tick-hover] scale-110'
+                                  : isInRange
+                                    ? 'bg-[--ds-accent-muted] hover:scale-110'
+                                    : isEmpty
+                                      ? 'border-2 border-[--ds-tick] bg-[--ds-background] hover:scale-110'
+                                      : 'bg-[--ds-tick] hover:scale-110'
+                          }`
+                    } ${classNames.monthTick ?? ''}`}
+                    style={tickStyle}
+                    aria-label={item.label}
+                    aria-pressed={isSelected}
+                  >
+                    {renderMonthTick?.({
+                      label: item.label,
+                      name: item.name,
+                      start: item.start,
+                      end: item.end,
+                      index,
+                      position: pos,
+                      selected: isSelected,
+                      hovered: isHovered,
+                      inRange: isInRange,
+                      disabled: item.disabled,
+                      count: item.count,
+                      orientation,
+                    })}
+                  </button>
+                )
+              })}
+
+              {/* Event markers */}
+              <EventMarkers
+                marks={eventMarks}
+                orientation={orientation}
+                pointsBeside
+                onClick={onEventClick}
+                unstyled={unstyled}
+                className={classNames.eventMarker}
+              />
+            </div>
+          </div>
+
+          {/* Period label */}
+          <div
+            data-part="popupLabel"
+            className={`${
+              unstyled
+                ? ''
+                : 'mt-2 whitespace-nowrap text-center text-xs text-[--ds-text-muted]'
+            } ${classNames.popupLabel ?? ''}`}
+          >
+            {label ?? '\u00A0'}
+          </div>
+        </>
+      )}
+
+      {/* What is in the previewed month */}
+      {preview && renderMonthPreview && (
+        <div
+          aria-busy={preview.status === 'loading'}
+          data-part="monthPreview"
+          data-state={preview.status}
+          className={`${unstyled ? '' : 'mt-2'} ${classNames.monthPreview ?? ''}`}
+        >
+          {renderMonthPreview(preview)}
+        </div>
+      )}
+    </>
+  )
+
+  const popup = (
     <div
-      ref={containerRef}
-      className={`select-none font-sans ${containerClasses} ${className}`}
-      role="application"
-      aria-label="Date selector"
+      {...popupProps}
+      ref={ref}
+      dir={dir}
+      data-scope={SCOPE}
+      data-part="popup"
+      data-side={placed?.side}
+      data-color-scheme={colorScheme}
+      style={{ ...themeStyle, ...containerStyle }}
+      className={`${unstyled ? '' : 'z-50'} ${
+        renderPopup || unstyled
+          ? ''
+          : 'rounded-[--ds-radius] border border-[--ds-popup-border] bg-[--ds-popup-bg] p-[--ds-popup-padding] [box-shadow:var(--ds-popup-shadow)]'
+      } ${classNames.popup ?? ''}`}
     >
-      {/* Bar container */}
+      {renderPopup
+        ? renderPopup({ title, level, label, onBack, content })
+        : content}
+    </div>
+  )
+
+  const container =
+    portalContainer === undefined ? document.body : portalContainer
+  return container ? createPortal(popup, container) : popup
+}
+
+/**
+ * Track an element's length along the bar, measuring again as it resizes.
+ * Stays 0 until the element mounts.
+ */
+function useAxisLength(orientation: 'horizontal' | 'vertical') {
+  const [node, setNode] = useState<HTMLElement | null>(null)
+  const [length, setLength] = useState(0)
+
+  useLayoutEffect(() => {
+    if (!node) {
+      return
+    }
+    const measure = () => {
+      const rect = node.getBoundingClientRect()
+      setLength(orientation === 'horizontal' ? rect.width : rect.height)
+    }
+    measure()
+    if (typeof ResizeObserver === 'undefined') {
+      return
+    }
+    const observer = new ResizeObserver(measure)
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [node, orientation])
+
+  return [setNode, length] as const
+}
+
+export const DateSelector = forwardRef<DateSelectorHandle, DateSelectorProps>(
+  function DateSelector(props, ref) {
+    const {
+      showCountTooltips = false,
+      onEventClick,
+      renderYearTick,
+      renderYearLabel,
+      renderMonthTick,
+      renderMonthPreview,
+      renderPopup,
+      renderSelection,
+      placement = 'auto',
+      portalContainer,
+      colorScheme = 'auto',
+      theme,
+      unstyled = false,
+      trackRenderer = 'dom',
+      classNames = NO_CLASS_NAMES,
+      className = '',
+      clearable = !props.required,
+    } = props
+    const {
+      orientation,
+      sort,
+      locale,
+      dir,
+      calendar,
+      timeZone,
+      events,
+      layout,
+      view,
+      viewMonths,
+      visibleYears,
+      toViewPercent,
+      densityCells,
+      maxCount,
+      eventMarkers,
+      rangeHighlight,
+      selectionHighlights,
+      gaps,
+      currentPosition,
+      isPlaying,
+      playInterval,
+      playheadPosition,
+      mode,
+      value,
+      range,
+      values,
+      selectedStarts,
+      selectedYear,
+      displayedRange,
+      selectionLabel,
+      hoverYear,
+      hoverMonth,
+      monthPreview,
+      hoverPosition,
+      getPopupAnchor,
+      isScrubbing,
+      isPanning,
+      canPan,
+      isPopupOpen,
+      popupTitle,
+      popupLevel,
+      popupItems,
+      popupMaxCount,
+      highlightedIndex,
+      drillMonth,
+      activeValueText,
+      changeView,
+      selectItem,
+      highlightItem,
+      drillBack,
+      disabled,
+      readOnly,
+      clear,
+      getYearSelection,
+      toggleYear,
+      focus,
+      play,
+      pause,
+      getRootProps,
+      getBarProps,
+      getPopupProps,
+      getInputProps,
+    } = useDateSelector(props)
+
+    useImperativeHandle(ref, () => ({ focus, clear, play, pause }), [
+      focus,
+      clear,
+      play,
+      pause,
+    ])
+
+    const isHorizontal = orientation === 'horizontal'
+    const isMultiple = mode === 'multiple'
+    const canToggleYears = isMultiple && !disabled && !readOnly
+    const themeStyle = useMemo(() => getThemeStyle(theme), [theme])
+    const [labelsRef, labelsLength] = useAxisLength(orientation)
+    const formatYear = useCallback(
+      (year: number) =>
+        formatPeriod(
+          calendar.fromMonthIndex(calendar.getYearStart(year)),
+          'year',
+          locale,
+          calendar
+        ),
+      [calendar, locale]
+    )
+
+    // Callbacks for the memoised layers, kept the same as the props change
+    const onEventClickRef = useRef(onEventClick)
+    const toggleYearRef = useRef(toggleYear)
+    useLayoutEffect(() => {
+      onEventClickRef.current = onEventClick
+      toggleYearRef.current = toggleYear
+    })
+    const hasEventClick = onEventClick !== undefined
+    const handleEventClick = useMemo(
+      () =>
+        hasEventClick
+          ? (event: TimelineEvent) => onEventClickRef.current?.(event)
+          : undefined,
+      [hasEventClick]
+    )
+    const handleYearToggle = useCallback(
+      (year: number) => toggleYearRef.current(year),
+      []
+    )
+
+    // The years the selected or previewed range starts and ends in
+    const rangeYears = displayedRange
+      ? [displayedRange.start, displayedRange.end].map((date) =>
+          calendar.getYear(calendar.toMonthIndex(date))
+        )
+      : null
+    const [firstSelectedYear, lastSelectedYear] = rangeYears ?? [
+      selectedYear,
+      selectedYear,
+    ]
+
+    // Year ticks are drawn on the canvas unless they need to be elements
+    const isCanvas = trackRenderer === 'canvas'
+    const hasYearTickElements = !isCanvas || !!renderYearTick || isMultiple
+
+    // Label as many years as fit, never dropping the selected or hovered ones.
+    // Worked out again only as those years change, not on every hover frame.
+    const labelledYears = useMemo(
+      () =>
+        getYearLabels(
+          layout,
+          view,
+          labelsLength,
+          YEAR_LABEL_SPACING[orientation],
+          [selectedYear, hoverYear, firstSelectedYear, lastSelectedYear].filter(
+            (year): year is number => year !== null
+          )
+        ).map((segment) => ({ ...segment, label: formatYear(segment.year) })),
+      [
+        layout,
+        view,
+        labelsLength,
+        orientation,
+        selectedYear,
+        hoverYear,
+        firstSelectedYear,
+        lastSelectedYear,
+        formatYear,
+      ]
+    )
+
+    // Render props take over a part's look, leaving its wrapper to place it
+    const yearLabelClasses = `${
+      renderYearLabel || unstyled ? '' : 'text-xs text-[--ds-text-muted]'
+    } ${classNames.yearLabel ?? ''}`
+
+    const containerClasses = isHorizontal
+      ? 'relative flex w-full min-w-64 flex-col'
+      : 'relative flex h-full min-h-64 flex-row'
+
+    const cursorClass = disabled
+      ? 'cursor-not-allowed'
+      : isPanning
+        ? 'cursor-grabbing'
+        : canPan
+          ? 'cursor-grab'
+          : 'cursor-pointer'
+
+    const barContainerClasses = isHorizontal
+      ? `relative flex h-16 w-full ${cursorClass} items-center rounded-md outline-none focus-visible:ring-2 focus-visible:ring-[--ds-accent]`
+      : `relative flex h-full w-16 ${cursorClass} flex-col items-center rounded-md outline-none focus-visible:ring-2 focus-visible:ring-[--ds-accent]`
+
+    const barClasses = isHorizontal
+      ? 'relative h-[--ds-track-size] w-full rounded-[--ds-track-radius] bg-[--ds-track]'
+      : 'relative h-full w-[--ds-track-size] rounded-[--ds-track-radius] bg-[--ds-track]'
+
+    const labelsContainerClasses = isHorizontal
+      ? 'relative mt-1 h-6 w-full'
+      : 'relative ms-1 h-full w-6'
+
+    return (
       <div
-        className={barContainerClasses}
-        onMouseMove={handleBarMouseMove}
-        onMouseLeave={handleBarMouseLeave}
+        {...getRootProps()}
+        data-scope={SCOPE}
+        data-part="root"
+        data-orientation={orientation}
+        data-color-scheme={colorScheme}
+        data-state={getDataState({
+          disabled,
+          readonly: readOnly,
+          scrubbing: isScrubbing,
+          panning: isPanning,
+          zoomed: viewMonths !== null,
+          playing: isPlaying,
+        })}
+        style={themeStyle}
+        className={`${
+          unstyled
+            ? ''
+            : `select-none font-sans ${containerClasses} ${disabled ? 'opacity-50' : ''}`
+        } ${classNames.root ?? ''} ${className}`}
       >
-        {/* Background bar */}
-        <div className={barClasses}>
-          {/* Year tick marks */}
-          {years.map((year, index) => {
-            const position = (index / years.length) * 100
-            const isSelected = year === selectedYear
-            const isHovered = year === hoverYear
-
-            const tickStyle: React.CSSProperties = isHorizontal
-              ? { left: `${position}%` }
-              : { top: `${position}%` }
+        {/* Carries the value in form submits and validation. Hidden even when
+            unstyled, as it isn't meant to be seen */}
+        <input
+          {...getInputProps()}
+          className="pointer-events-none absolute bottom-0 start-0 h-px w-px opacity-0"
+        />
 
-            return (
+        {/* Bar container */}
+        <div
+          {...getBarProps()}
+          data-part="bar"
+          className={`${unstyled ? '' : barContainerClasses} ${classNames.bar ?? ''}`}
+        >
+          {/* Background bar */}
+          <div
+            data-part="track"
+            className={`${unstyled ? '' : barClasses} ${classNames.track ?? ''}`}
+          >
+            {/* Content density overlay, with the ticks and markers when they
+                are drawn */}
+            {isCanvas ? (
+              <CanvasTrack
+                cells={densityCells}
+                maxCount={maxCount}
+                years={hasYearTickElements ? NO_YEARS : visibleYears}
+                toViewPercent={toViewPercent}
+                firstSelectedYear={firstSelectedYear}
+                lastSelectedYear={lastSelectedYear}
+                hoverYear={hoverYear}
+                marks={eventMarkers}
+                orientation={orientation}
+                dir={dir}
+                colorScheme={colorScheme}
+                themeStyle={themeStyle}
+                unstyled={unstyled}
+                className={classNames.trackCanvas}
+              />
+            ) : (
+              densityCells && (
+                <DensityLayer
+                  cells={densityCells}
+                  maxCount={maxCount}
+                  orientation={orientation}
+                  showTooltips={showCountTooltips}
+                  unstyled={unstyled}
+                  className={classNames.densityCell}
+                />
+              )
+            )}
+
+            {/* Selected or previewed range */}
+            {rangeHighlight && (
               <div
-                key={year}
-                className={`absolute ${isHorizontal ? '-translate-x-1/2' : '-translate-y-1/2'} h-2 w-2 rounded-full transition-all ${
-                  isSelected
-                    ? 'bg-blue-500 dark:bg-blue-400'
-                    : isHovered
-                      ? 'bg-slate-500 dark:bg-slate-400'
-                      : 'bg-slate-400 dark:bg-slate-500'
-                }`}
-                style={tickStyle}
+                aria-hidden="true"
+                data-part="highlight"
+                className={`${
+                  unstyled
+                    ? ''
+                    : `absolute rounded-[--ds-track-radius] bg-[--ds-highlight] ${
+                        isHorizontal ? 'inset-y-0' : 'inset-x-0'
+                      }`
+                } ${classNames.highlight ?? ''}`}
+                style={
+                  isHorizontal
+                    ? {
+                        insetInlineStart: `${rangeHighlight.start}%`,
+                        width: `${rangeHighlight.size}%`,
+                      }
+                    : {
+                        top: `${rangeHighlight.start}%`,
+                        height: `${rangeHighlight.size}%`,
+                      }
+                }
               />
-            )
-          })}
-        </div>
+            )}
 
-        {/* Month selector popup */}
-        {hoverYear !== null && (
-          <MonthSelector
-            year={hoverYear}
-            position={hoverPosition}
-            orientation={orientation}
-            sort={sort}
-            locale={locale}
-            selectedMonth={selectedYear === hoverYear ? selectedMonth : null}
-            hoveredFromBar={isPopupHovered ? null : hoverMonth}
-            onSelect={handleMonthSelect}
-            onMouseEnter={handlePopupMouseEnter}
-            onMouseLeave={handlePopupMouseLeave}
-            startDate={startDate}
-            endDate={endDate}
-          />
-        )}
-      </div>
+            {/* Periods selected in multiple mode */}
+            {selectionHighlights.map((highlight) => (
+              <div
+                key={highlight.key}
+                aria-hidden="true"
+                data-part="highlight"
+                className={`${
+                  unstyled
+                    ? ''
+                    : `absolute rounded-[--ds-track-radius] bg-[--ds-highlight] ${
+                        isHorizontal ? 'inset-y-0' : 'inset-x-0'
+                      }`
+                } ${classNames.highlight ?? ''}`}
+                style={
+                  isHorizontal
+                    ? {
+                        insetInlineStart: `${highlight.start}%`,
+                        width: `${highlight.size}%`,
+                      }
+                    : {
+                        top: `${highlight.start}%`,
+                        height: `${highlight.size}%`,
+                      }
+                }
+              />
+            ))}
 
-      {/* Year labels */}
-      <div className={labelsContainerClasses}>
-        {years.length <= 10 ? (
-          // Show all years if 10 or fewer
-          years.map((year, index) => {
-            const position = (index / years.length) * 100
+            {/* Months that can't be picked, as breaks in the track */}
+            {gaps.map((gap) => (
+              <div
+                key={gap.start}
+                aria-hidden="true"
+                data-part="gap"
+                className={`${
+                  unstyled
+                    ? ''
+                    : `absolute bg-[--ds-background] ${
+                        isHorizontal ? '-inset-y-px' : '-inset-x-px'
+                      }`
+                } ${classNames.gap ?? ''}`}
+                style={
+                  isHorizontal
+                    ? {
+                        insetInlineStart: `${gap.start}%`,
+                        width: `${gap.size}%`,
+                      }
+                    : { top: `${gap.start}%`, height: `${gap.size}%` }
+                }
+              />
+            ))}
+
+            {/* Year tick marks, which select or deselect whole years in
+                multiple mode */}
+            {hasYearTickElements && (
+              <YearTicks
+                years={visibleYears}
+                toViewPercent={toViewPercent}
+                orientation={orientation}
+                firstSelectedYear={firstSelectedYear}
+                lastSelectedYear={lastSelectedYear}
+                hoverYear={hoverYear}
+                getYearSelection={isMultiple ? getYearSelection : undefined}
+                onToggle={canToggleYears ? handleYearToggle : undefined}
+                formatYear={formatYear}
+                renderYearTick={renderYearTick}
+                unstyled={unstyled}
+                className={classNames.yearTick}
+              />
+            )}
+
+            {/* Event markers */}
+            {!isCanvas && (
+              <EventMarkers
+                marks={eventMarkers}
+                orientation={orientation}
+                onClick={handleEventClick}
+                unstyled={unstyled}
+                className={classNames.eventMarker}
+              />
+            )}
+
+            {/* Position of `currentDate`, e.g. the section scrolled to */}
+            {currentPosition !== null && (
+              <div
+                aria-hidden="true"
+                data-part="currentIndicator"
+                className={`${
+                  unstyled
+                    ? ''
+                    : `pointer-events-none absolute rounded-full bg-[--ds-current] transition-all ${
+                        isHorizontal
+                          ? `${CENTER_X} -inset-y-1 w-0.5`
+                          : '-inset-x-1 h-0.5 -translate-y-1/2'
+                      }`
+                } ${classNames.currentIndicator ?? ''}`}
+                style={
+                  isHorizontal
+                    ? { insetInlineStart: `${currentPosition}%` }
+                    : { top: `${currentPosition}%` }
+                }
+              />
+            )}
+
+            {/* Playhead, gliding from one step of playback to the next */}
+            {playheadPosition !== null && (
+              <div
+                aria-hidden="true"
+                data-part="playhead"
+                className={`${
+                  unstyled
+                    ? ''
+                    : `pointer-events-none absolute h-3 w-3 rounded-full border-2 border-[--ds-background] bg-[--ds-accent] shadow transition-all ease-linear motion-reduce:transition-none ${
+                        isHorizontal
+                          ? `${CENTER_X} top-1/2 -translate-y-1/2`
+                          : 'left-1/2 -translate-x-1/2 -translate-y-1/2'
+                      }`
+                } ${classNames.playhead ?? ''}`}
+                style={{
+                  ...(isHorizontal
+                    ? { insetInlineStart: `${playheadPosition}%` }
+                    : { top: `${playheadPosition}%` }),
+                  transitionDuration: `${playInterval}ms`,
+                }}
+              />
+            )}
+          </div>
+
+          {/* Floating indicator while scrubbing by touch or pen */}
+          {isScrubbing && hoverYear !== null && hoverMonth !== null && (
+            <ScrubIndicator
+              label={activeValueText}
+              position={hoverPosition}
+              orientation={orientation}
+              unstyled={unstyled}
+              className={classNames.scrubIndicator}
+            />
+          )}
+
+          {/* Month selector popup */}
+          {isPopupOpen && (
+            <MonthSelector
+              title={popupTitle}
+              level={popupLevel}
+              items={popupItems}
+              getAnchor={getPopupAnchor}
+              placement={placement}
+              portalContainer={portalContainer}
+              orientation={orientation}
+              dir={dir}
+              sort={sort}
+              locale={locale}
+              selected={selectedStarts}
+              range={displayedRange}
+              highlightedIndex={highlightedIndex}
+              onSelect={selectItem}
+              onHighlight={highlightItem}
+              onBack={drillMonth !== null ? drillBack : undefined}
+              popupProps={getPopupProps()}
+              maxCount={popupMaxCount}
+              showCountTooltips={showCountTooltips}
+              events={events}
+              timeZone={timeZone}
+              onEventClick={handleEventClick}
+              renderMonthTick={renderMonthTick}
+              preview={monthPreview}
+              renderMonthPreview={renderMonthPreview}
+              renderPopup={renderPopup}
+              colorScheme={colorScheme}
+              themeStyle={themeStyle}
+              unstyled={unstyled}
+              classNames={classNames}
+            />
+          )}
+        </div>
+
+        {/* Year labels */}
+        <div
+          ref={labelsRef}
+          className={unstyled ? undefined : labelsContainerClasses}
+        >
+          {labelledYears.map(({ year, start, label }) => {
+            const position = toViewPercent(start)
             const style: React.CSSProperties = isHorizontal
-              ? { left: `${position}%`, transform: 'translateX(-50%)' }
+              ? { insetInlineStart: `${position}%` }
               : { top: `${position}%`, transform: 'translateY(-50%)' }
 
             return (
               <span
                 key={year}
-                className="absolute text-xs text-slate-500 dark:text-slate-400"
+                data-part="yearLabel"
+                className={`${
+                  unstyled
+                    ? ''
+                    : `absolute whitespace-nowrap ${isHorizontal ? CENTER_X : ''}`
+                } ${yearLabelClasses}`}
                 style={style}
               >
-                {year}
+                {renderYearLabel
+                  ? renderYearLabel({ year, label, position, orientation })
+                  : label}
               </span>
             )
-          })
-        ) : (
-          // Show only first and last year if more than 10
-          <>
-            <span className="text-xs text-slate-500 dark:text-slate-400">
-              {years[0]}
-            </span>
-            <span className="text-xs text-slate-500 dark:text-slate-400">
-              {years[years.length - 1]}
-            </span>
-          </>
+          })}
+        </div>
+
+        {/* Mini-map of the full range while zoomed in */}
+        {viewMonths !== null && (
+          <TimelineMinimap
+            years={layout.years}
+            view={view}
+            label={`${formatYear(calendar.getYear(viewMonths.first))} – ${formatYear(calendar.getYear(viewMonths.last))}`}
+            orientation={orientation}
+            dir={dir}
+            onViewChange={changeView}
+            unstyled={unstyled}
+            classNames={classNames}
+          />
         )}
-      </div>
 
-      {/* Selected date indicator */}
-      {value && (
-        <div
-          className={`mt-2 text-sm text-slate-600 dark:text-slate-300 ${isHorizontal ? 'text-center' : ''}`}
-        >
-          {new Intl.DateTimeFormat(locale, {
-            month: 'long',
-            year: 'numeric',
-          }).format(value)}
-        </div>
-      )}
-    </div>
-  )
-}
+        {/* Selected date indicator */}
+        {(value || range || values.length > 0) && (
+          <div
+            data-part="selection"
+            className={`${
+              renderSelection || unstyled
+                ? ''
+                : `mt-2 text-sm text-[--ds-text] ${isHorizontal ? 'text-center' : ''}`
+            } ${classNames.selection ?? ''}`}
+          >
+            {renderSelection
+              ? renderSelection({
+                  value,
+                  range,
+                  values,
+                  label: selectionLabel,
+                })
+              : selectionLabel}
+            {clearable && !disabled && !readOnly && (
+              <button
+                type="button"
+                aria-label="Clear selection"
+                data-part="clearButton"
+                onClick={() => {
+                  clear()
+                  focus()
+                }}
+                className={`${
+                  unstyled
+                    ? ''
+                    : 'ms-1 rounded px-1 text-[--ds-text-muted] hover:text-[--ds-text] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[--ds-accent]'
+                } ${classNames.clearButton ?? ''}`}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+)
@@ -0,0 +1,214 @@
+import { getDateFormat } from './format'
+
+/**
+ * Month and year arithmetic for one calendar system. Months are addressed by a
+ * month index counting up by one per month: `year * 12 + month` in the
+ * Gregorian calendar, and a count from a fixed month in the others.
+ */
+export interface Calendar {
+  /** The `Intl` calendar identifier, e.g. 'gregory' or 'persian' */
+  id: string
+  /** Month index of the month holding a date */
+  toMonthIndex: (date: Date) => number
+  /** First day of the month at a month index */
+  fromMonthIndex: (monthIndex: number) => Date
+  /** The year holding a month, numbered as the calendar numbers it */
+  getYear: (monthIndex: number) => number
+  /** Month index of the first month of a year */
+  getYearStart: (year: number) => number
+  /** A year's name, when it isn't the one `Intl` gives its first day */
+  formatYear?: (year: number, locale: string) => string
+}
+
+export const GREGORIAN_CALENDAR: Calendar = {
+  id: 'gregory',
+  toMonthIndex: (date) => date.getFullYear() * 12 + date.getMonth(),
+  fromMonthIndex: (monthIndex) =>
+    new Date(Math.floor(monthIndex / 12), monthIndex % 12, 1),
+  getYear: (monthIndex) => Math.floor(monthIndex / 12),
+  getYearStart: (year) => year * 12,
+}
+
+// Calendars sharing Gregorian months and years, only naming years differently
+const GREGORIAN_MONTH_CALENDARS = ['iso8601', 'japanese', 'buddhist', 'roc']
+
+/** Whether a calendar's months are the Gregorian ones, under any year names */
+export function hasGregorianMonths(calendar: Calendar) {
+  return (
+    calendar.id === GREGORIAN_CALENDAR.id ||
+    GREGORIAN_MONTH_CALENDARS.includes(calendar.id)
+  )
+}
+
+const calendars = new Map<string, Calendar>([['gregory', GREGORIAN_CALENDAR]])
+
+/**
+ * A calendar whose months are found by reading dates back from `Intl`, such
+ * as 'persian', 'hebrew' or 'islamic'. Month starts are worked out from a
+ * fixed month outwards and kept, so each is only read once.
+ */
+function createIntlCalendar(id: string): Calendar {
+  const format = new Intl.DateTimeFormat(`en-US-u-ca-${id}-nu-latn`, {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  })
+  const read = (date: Date) => {
+    const parts = format.formatToParts(date)
+    const value = (type: string) =>
+      Number(parts.find((part) => part.type === type)?.value)
+    // Cyclic calendars such as 'chinese' give the Gregorian year instead
+    const relatedYear = value('relatedYear')
+    return {
+      day: value('day'),
+      year: Number.isNaN(relatedYear) ? value('year') : relatedYear,
+    }
+  }
+  const getMonthStart = (date: Date) =>
+    new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate() - read(date).day + 1
+    )
+
+  // Month starts from `first` on, with the year each begins
+  const starts = [getMonthStart(new Date(2000, 0, 1))]
+  const years = [read(starts[0]).year]
+  let first = 0
+
+  const prepend = () => {
+    const next = starts[0]
+    const start = getMonthStart(
+      new Date(next.getFullYear(), next.getMonth(), next.getDate() - 1)
+    )
+    starts.unshift(start)
+    years.unshift(read(start).year)
+    first--
+  }
+  const append = () => {
+    const last = starts[starts.length - 1]
+    // Months run 29 to 31 days, so 32 days on is inside the next one
+    const start = getMonthStart(
+      new Date(last.getFullYear(), last.getMonth(), last.getDate() + 32)
+    )
+    starts.push(start)
+    years.push(read(start).year)
+  }
+  const getSlot = (monthIndex: number) => {
+    while (monthIndex < first) {
+      prepend()
+    }
+    while (monthIndex >= first + starts.length) {
+      append()
+    }
+    return monthIndex - first
+  }
+  const getYear = (monthIndex: number) => years[getSlot(monthIndex)]
+
+  return {
+    id,
+    toMonthIndex: (date) => {
+      const start = getMonthStart(date)
+      while (start < starts[0]) {
+        prepend()
+      }
+      while (start > starts[starts.length - 1]) {
+        append()
+      }
+      let low = 0
+      let high = starts.length - 1
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2)
+        if (starts[mid] <= start) {
+          low = mid
+        } else {
+          high = mid - 1
+        }
+      }
+      return first + low
+    },
+    fromMonthIndex: (monthIndex) => new Date(starts[getSlot(monthIndex)]),
+    getYear,
+    getYearStart: (year) => {
+      // Years hold 12 or 13 months, so stepping 12 months never skips one
+      let index = 0
+      while (getYear(index) > year) {
+        index -= 12
+      }
+      while (getYear(index) < year) {
+        index += 12
+      }
+      while (getYear(index - 1) === year) {
+        index--
+      }
+      return index
+    },
+  }
+}
+
+/**
+ * A year's first month as a whole month from 0 to 11. Others are wrapped into
+ * that range, so 12 is 0 and -1 is 11, and fractions are rounded down.
+ */
+export function normalizeYearStartMonth(yearStartMonth: number) {
+  if (!Number.isFinite(yearStartMonth)) {
+    return 0
+  }
+  return ((Math.floor(yearStartMonth) % 12) + 12) % 12
+}
+
+/**
+ * A calendar whose years begin `yearStartMonth` months into the usual ones,
+ * such as a fiscal year from April or a school year from August. Years are
+ * numbered by the usual year they begin in, and named like "2023/24" unless
+ * `formatYear` names them. `yearStartMonth` is normalised as by
+ * `normalizeYearStartMonth`.
+ */
+export function withYearStart(
+  calendar: Calendar,
+  yearStartMonthOption: number,
+  formatYear?: (year: number, locale: string) => string
+): Calendar {
+  const yearStartMonth = normalizeYearStartMonth(yearStartMonthOption)
+  if (yearStartMonth === 0 && !formatYear) {
+    return calendar
+  }
+
+  const getYearStart = (year: number) =>
+    calendar.getYearStart(year) + yearStartMonth
+  return {
+    ...calendar,
+    getYear: (monthIndex) => calendar.getYear(monthIndex - yearStartMonth),
+    getYearStart,
+    formatYear:
+      formatYear ??
+      ((year, locale) => {
+        const format = getDateFormat(locale, { year: 'numeric' })
+        const first = format.format(calendar.fromMonthIndex(getYearStart(year)))
+        const last = format.format(
+          calendar.fromMonthIndex(getYearStart(year + 1) - 1)
+        )
+        // Shortened to "2023/24" when only the last digits differ
+        return first.length === last.length &&
+          first.slice(0, -2) === last.slice(0, -2)
+          ? `${first}/${last.slice(-2)}`
+          : `${first}/${last}`
+      }),
+  }
+}
+
+/**
+ * The calendar a locale formats dates in, e.g. 'persian' for 'fa' or the one
+ * picked with a `-u-ca-` extension such as 'he-u-ca-hebrew'
+ */
+export function getCalendar(locale: string) {
+  const id = getDateFormat(locale, {}).resolvedOptions().calendar
+  let calendar = calendars.get(id)
+  if (!calendar) {
+    calendar = GREGORIAN_MONTH_CALENDARS.includes(id)
+      ? { ...GREGORIAN_CALENDAR, id }
+      : createIntlCalendar(id)
+    calendars.set(id, calendar)
+  }
+  return calendar
+}
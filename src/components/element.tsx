@@ -0,0 +1,256 @@
+/// <reference types="vite/client" />
+
+import { createRoot, type Root } from 'react-dom/client'
+import {
+  DateSelector,
+  type SingleStringDateSelectorProps,
+} from './DateSelector'
+import { parseDateString, type Granularity } from './timeline'
+import styles from './element.css?inline'
+
+/**
+ * Props passed to the inner `DateSelector` as they are, for those without an
+ * attribute, such as `counts`, `events` or `zoomable`. Attributes win over
+ * the same props given here.
+ */
+export type DateSelectorElementOptions = Omit<
+  SingleStringDateSelectorProps,
+  | 'mode'
+  | 'valueType'
+  | 'startDate'
+  | 'endDate'
+  | 'value'
+  | 'defaultValue'
+  | 'onChange'
+  | 'portalContainer'
+>
+
+/** Detail of the `change` event, with the period picked as in `value` */
+export interface DateSelectorChangeEventDetail {
+  value: string | null
+}
+
+const ORIENTATIONS = ['horizontal', 'vertical'] as const
+const SORTS = ['ascending', 'descending'] as const
+const GRANULARITIES: readonly Granularity[] = [
+  'year',
+  'quarter',
+  'month',
+  'week',
+  'day',
+]
+
+/** An attribute's value if it is one of those allowed, else undefined */
+function readChoice<T extends string>(
+  value: string | null,
+  allowed: readonly T[]
+) {
+  return allowed.find((choice) => choice === value)
+}
+
+/** A date given as a `Date` or a 'YYYY-MM' or 'YYYY-MM-DD' string */
+function readDate(value: Date | string | null) {
+  return typeof value === 'string' ? parseDateString(value) : value
+}
+
+/**
+ * `DateSelector` as a `<date-selector>` custom element, for pages and
+ * frameworks other than React. Its styles are kept in its shadow root, popup
+ * included, so they neither need Tailwind on the page nor leak into it.
+ *
+ * `start-date`, `end-date` and `value` take 'YYYY-MM' or 'YYYY-MM-DD'
+ * strings, and `orientation`, `sort`, `locale`, `granularity` and `disabled`
+ * match the props of the same name. The `value` attribute holds the
+ * selection, and the `value` property reads and writes it. Picking a period
+ * sets it, then dispatches a `change` event with it in `detail.value`.
+ */
+export class DateSelectorElement extends HTMLElement {
+  static observedAttributes = [
+    'start-date',
+    'end-date',
+    'value',
+    'orientation',
+    'sort',
+    'locale',
+    'granularity',
+    'disabled',
+  ]
+
+  private container: HTMLDivElement
+  private popupContainer: HTMLDivElement
+  private root: Root | null = null
+  private startDateValue: Date | null = null
+  private endDateValue: Date | null = null
+  private optionsValue: DateSelectorElementOptions = {}
+
+  constructor() {
+    super()
+    const style = document.createElement('style')
+    style.textContent = styles
+    this.container = document.createElement('div')
+    // The popup goes beside the root rather than in it, which React owns, and
+    // stays in the shadow root, as it would be unstyled in the page's body
+    this.popupContainer = document.createElement('div')
+    this.attachShadow({ mode: 'open' }).append(
+      style,
+      this.container,
+      this.popupContainer
+    )
+  }
+
+  connectedCallback() {
+    this.root ??= createRoot(this.container)
+    this.render()
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount()
+    this.root = null
+  }
+
+  attributeChangedCallback(
+    name: string,
+    _oldValue: string | null,
+    value: string | null
+  ) {
+    if (name === 'start-date') {
+      this.startDateValue = readDate(value)
+    } else if (name === 'end-date') {
+      this.endDateValue = readDate(value)
+    }
+    this.render()
+  }
+
+  /** First day of the timeline; nothing is shown until it is set */
+  get startDate() {
+    return this.startDateValue
+  }
+
+  set startDate(date: Date | string | null) {
+    this.startDateValue = readDate(date)
+    this.render()
+  }
+
+  /** Last day of the timeline (defaults to today) */
+  get endDate() {
+    return this.endDateValue
+  }
+
+  set endDate(date: Date | string | null) {
+    this.endDateValue = readDate(date)
+    this.render()
+  }
+
+  /** The selected period as 'YYYY-MM' or 'YYYY-MM-DD', or null */
+  get value() {
+    return this.getAttribute('value')
+  }
+
+  set value(value: string | null) {
+    this.reflect('value', value ?? undefined)
+  }
+
+  get orientation() {
+    return readChoice(this.getAttribute('orientation'), ORIENTATIONS)
+  }
+
+  set orientation(orientation: 'horizontal' | 'vertical' | undefined) {
+    this.reflect('orientation', orientation)
+  }
+
+  get sort() {
+    return readChoice(this.getAttribute('sort'), SORTS)
+  }
+
+  set sort(sort: 'ascending' | 'descending' | undefined) {
+    this.reflect('sort', sort)
+  }
+
+  get locale() {
+    return this.getAttribute('locale') ?? undefined
+  }
+
+  set locale(locale: string | undefined) {
+    this.reflect('locale', locale)
+  }
+
+  get granularity() {
+    return readChoice(this.getAttribute('granularity'), GRANULARITIES)
+  }
+
+  set granularity(granularity: Granularity | undefined) {
+    this.reflect('granularity', granularity)
+  }
+
+  get disabled() {
+    return this.hasAttribute('disabled')
+  }
+
+  set disabled(disabled: boolean) {
+    this.toggleAttribute('disabled', disabled)
+  }
+
+  /** Any other props for the inner `DateSelector` */
+  get options() {
+    return this.optionsValue
+  }
+
+  set options(options: DateSelectorElementOptions) {
+    this.optionsValue = options
+    this.render()
+  }
+
+  private reflect(name: string, value: string | undefined) {
+    if (value === undefined) {
+      this.removeAttribute(name)
+    } else {
+      this.setAttribute(name, value)
+    }
+  }
+
+  private render() {
+    const { root, startDateValue: startDate, optionsValue: options } = this
+    if (!root) {
+      return
+    }
+    if (!startDate) {
+      root.render(null)
+      return
+    }
+
+    root.render(
+      <DateSelector
+        {...options}
+        valueType="string"
+        startDate={startDate}
+        endDate={this.endDateValue ?? undefined}
+        orientation={this.orientation ?? options.orientation}
+        sort={this.sort ?? options.sort}
+        locale={this.locale ?? options.locale}
+        granularity={this.granularity ?? options.granularity}
+        disabled={this.disabled || options.disabled}
+        value={this.value}
+        onChange={(value) => {
+          this.value = value
+          this.dispatchEvent(
+            new CustomEvent<DateSelectorChangeEventDetail>('change', {
+              bubbles: true,
+              detail: { value },
+            })
+          )
+        }}
+        portalContainer={this.popupContainer}
+      />
+    )
+  }
+}
+
+if (!customElements.get('date-selector')) {
+  customElements.define('date-selector', DateSelectorElement)
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'date-selector': DateSelectorElement
+  }
+}
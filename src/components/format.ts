@@ -0,0 +1,29 @@
+// Formatters are slow to create and labels are formatted on every render, so
+// each is made once per locale and options and kept. The locale carries its
+// calendar and numbering system, e.g. 'he-u-ca-hebrew'.
+const dateFormats = new Map<string, Intl.DateTimeFormat>()
+const numberFormats = new Map<string, Intl.NumberFormat>()
+
+/** An `Intl.DateTimeFormat`, shared with every caller asking for the same */
+export function getDateFormat(
+  locale: string,
+  options: Intl.DateTimeFormatOptions
+) {
+  const key = `${locale}|${JSON.stringify(options)}`
+  let format = dateFormats.get(key)
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, options)
+    dateFormats.set(key, format)
+  }
+  return format
+}
+
+/** An `Intl.NumberFormat` for a locale, shared with every caller asking for it */
+export function getNumberFormat(locale: string) {
+  let format = numberFormats.get(locale)
+  if (!format) {
+    format = new Intl.NumberFormat(locale)
+    numberFormats.set(locale, format)
+  }
+  return format
+}
@@ -1 +1,91 @@
-export { DateSelector, type DateSelectorProps } from './DateSelector'
+export {
+  DateSelector,
+  type DateSelectorProps,
+  type SingleDateSelectorProps,
+  type SingleStringDateSelectorProps,
+  type RangeDateSelectorProps,
+  type RangeStringDateSelectorProps,
+  type MultipleDateSelectorProps,
+  type MultipleStringDateSelectorProps,
+  type DateSelectorHandle,
+  type DateSelectorPart,
+  type DateSelectorClassNames,
+  type DateSelectorTheme,
+  type DateSelectorThemeVariable,
+  type YearTickState,
+  type YearLabelState,
+  type MonthTickState,
+  type PopupState,
+  type SelectionState,
+} from './DateSelector'
+export {
+  useDateSelector,
+  type DateSelectorOptions,
+  type SingleDateSelectorOptions,
+  type SingleStringDateSelectorOptions,
+  type RangeDateSelectorOptions,
+  type RangeStringDateSelectorOptions,
+  type MultipleDateSelectorOptions,
+  type MultipleStringDateSelectorOptions,
+  type DateStringRange,
+  type DateSelectorBarProps,
+  type DateSelectorInputProps,
+  type DateSelectorPopupProps,
+  type MonthPreview,
+  type UseDateSelectorResult,
+} from './useDateSelector'
+export {
+  useTimelineScrollSync,
+  type TimelineScrollSyncOptions,
+  type TimelineScrollSyncResult,
+} from './useTimelineScrollSync'
+export {
+  useDateSelectorUrlState,
+  type DateSelectorUrlAdapter,
+  type DateSelectorUrlStateOptions,
+  type SingleDateSelectorUrlStateOptions,
+  type RangeDateSelectorUrlStateOptions,
+  type DateSelectorUrlStateResult,
+} from './useDateSelectorUrlState'
+export {
+  FULL_VIEW,
+  buildTimelineLayout,
+  positionToMonth,
+  monthToPosition,
+  getVisibleYears,
+  getYearLabels,
+  isMonthDisabled,
+  isPeriodDisabled,
+  findEnabledMonth,
+  toMonthIndex,
+  fromMonthIndex,
+  parseDateString,
+  toDateString,
+  getPeriodStart,
+  getPeriod,
+  formatPeriod,
+  type DateRange,
+  type Granularity,
+  type TimelineScale,
+  type MonthCounts,
+  type TimelineEvent,
+  type PopupLevel,
+  type Period,
+  type PeriodItem,
+  type TimelineLayout,
+  type MonthSlot,
+  type YearSegment,
+  type ViewWindow,
+  type DensityCell,
+  type EventMark,
+} from './timeline'
+export {
+  placePopup,
+  getPopupSides,
+  type Placement,
+  type PopupSide,
+  type AnchorBox,
+  type PopupPosition,
+} from './placement'
+export { getCalendar, withYearStart, type Calendar } from './calendar'
+export { toZonedDay, fromZonedDay, type TimeZone } from './timeZone'
@@ -0,0 +1,92 @@
+/** Which side of the bar the popup opens on; 'auto' picks one with room */
+export type Placement = 'auto' | 'top' | 'bottom' | 'left' | 'right'
+
+export type PopupSide = Exclude<Placement, 'auto'>
+
+/** A box in viewport coordinates */
+export interface AnchorBox {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+export interface PopupPosition {
+  /** The side it opened on, after any flip */
+  side: PopupSide
+  left: number
+  top: number
+}
+
+const OPPOSITE: Record<PopupSide, PopupSide> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left',
+}
+
+/**
+ * The sides to try for a placement, in order. 'auto' opens above a horizontal
+ * bar, and beside a vertical one on the side text runs towards.
+ */
+export function getPopupSides(
+  placement: Placement,
+  orientation: 'horizontal' | 'vertical',
+  dir: 'ltr' | 'rtl'
+): PopupSide[] {
+  if (placement !== 'auto') {
+    return [placement, OPPOSITE[placement]]
+  }
+  if (orientation === 'horizontal') {
+    return ['top', 'bottom']
+  }
+  return dir === 'rtl' ? ['left', 'right'] : ['right', 'left']
+}
+
+/**
+ * Place a popup beside an anchor, inside the viewport. It opens on the first
+ * side with room for it, or else the roomiest, and shifts along that side to
+ * stay `padding` clear of the viewport's edges.
+ */
+export function placePopup(
+  anchor: AnchorBox,
+  popup: { width: number; height: number },
+  viewport: { width: number; height: number },
+  sides: PopupSide[],
+  gap = 8,
+  padding = 8
+): PopupPosition {
+  const room: Record<PopupSide, number> = {
+    top: anchor.top - gap - padding,
+    bottom: viewport.height - anchor.bottom - gap - padding,
+    left: anchor.left - gap - padding,
+    right: viewport.width - anchor.right - gap - padding,
+  }
+  const needs = (side: PopupSide) =>
+    side === 'top' || side === 'bottom' ? popup.height : popup.width
+  const side =
+    sides.find((side) => room[side] >= needs(side)) ??
+    sides.reduce((best, side) => (room[side] > room[best] ? side : best))
+
+  const shift = (centre: number, size: number, limit: number) =>
+    Math.max(padding, Math.min(limit - size - padding, centre - size / 2))
+
+  if (side === 'top' || side === 'bottom') {
+    return {
+      side,
+      left: shift(
+        (anchor.left + anchor.right) / 2,
+        popup.width,
+        viewport.width
+      ),
+      top:
+        side === 'top' ? anchor.top - gap - popup.height : anchor.bottom + gap,
+    }
+  }
+  return {
+    side,
+    left:
+      side === 'left' ? anchor.left - gap - popup.width : anchor.right + gap,
+    top: shift((anchor.top + anchor.bottom) / 2, popup.height, viewport.height),
+  }
+}
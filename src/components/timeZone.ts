@@ -0,0 +1,78 @@
+/** Where days begin: the browser's zone, UTC, or an IANA zone such as 'Europe/Oslo' */
+export type TimeZone = 'local' | 'UTC' | (string & {})
+
+const formats = new Map<string, Intl.DateTimeFormat>()
+
+// Wall-clock fields of an instant in an IANA zone
+function getZonedParts(date: Date, timeZone: string) {
+  let format = formats.get(timeZone)
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    formats.set(timeZone, format)
+  }
+  const parts = format.formatToParts(date)
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value)
+  return {
+    year: value('year'),
+    month: value('month') - 1,
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  }
+}
+
+// How far a zone's wall clock runs ahead of UTC at an instant, in ms
+function getZoneOffset(time: number, timeZone: string) {
+  const { year, month, day, hour, minute, second } = getZonedParts(
+    new Date(time),
+    timeZone
+  )
+  const wallTime = Date.UTC(year, month, day, hour, minute, second)
+  return wallTime - Math.floor(time / 1000) * 1000
+}
+
+/**
+ * The day an instant falls on in a time zone, as local midnight. The selector
+ * works on these wall-clock days, so a UTC instant at midnight on January 1st
+ * stays in January wherever the browser is.
+ */
+export function toZonedDay(date: Date, timeZone: TimeZone) {
+  if (timeZone === 'local') {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  }
+  if (timeZone === 'UTC') {
+    return new Date(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate()
+    )
+  }
+  const { year, month, day } = getZonedParts(date, timeZone)
+  return new Date(year, month, day)
+}
+
+/** The instant a wall-clock day from `toZonedDay` begins in a time zone */
+export function fromZonedDay(day: Date, timeZone: TimeZone) {
+  if (timeZone === 'local') {
+    return day
+  }
+  const wallTime = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate())
+  if (timeZone === 'UTC') {
+    return new Date(wallTime)
+  }
+  // Correct by the offset once, then again in case it changes across the
+  // correction, as it does around daylight saving changes
+  const guess = wallTime - getZoneOffset(wallTime, timeZone)
+  return new Date(wallTime - getZoneOffset(guess, timeZone))
+}
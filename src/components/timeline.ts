@@ -0,0 +1,606 @@
+import { GREGORIAN_CALENDAR, getCalendar, type Calendar } from './calendar'
+import { getDateFormat, getNumberFormat } from './format'
+import { toZonedDay, type TimeZone } from './timeZone'
+
+/** An inclusive span of periods, each given as the first day of its period */
+export interface DateRange {
+  start: Date
+  end: Date
+}
+
+/** A labelled moment or span of time, such as a wedding or a trip */
+export interface TimelineEvent {
+  /** When the event happened, or the first day of a span */
+  date: Date
+  /** Last day of a span; without it the event is a single point */
+  end?: Date
+  label: string
+  /** Any CSS color for the marker (default: amber) */
+  color?: string
+}
+
+/** How positions along the bar map to months */
+export type TimelineScale = 'equal' | 'linear' | 'weighted'
+
+/** The stretch of the bar taken by one month, as 0-1 ratios */
+export interface MonthSlot {
+  monthIndex: number
+  start: number
+  end: number
+}
+
+/** The stretch of the bar taken by one year, as 0-1 ratios */
+export interface YearSegment {
+  year: number
+  start: number
+  end: number
+}
+
+export interface TimelineLayout {
+  /** The calendar whose months and years are laid out */
+  calendar: Calendar
+  /** Months in display order, tiling the bar from 0 to 1 */
+  slots: MonthSlot[]
+  /** Years in display order */
+  years: YearSegment[]
+}
+
+/** The stretch of the layout shown on the bar, as 0-1 ratios */
+export interface ViewWindow {
+  start: number
+  end: number
+}
+
+export const FULL_VIEW: ViewWindow = { start: 0, end: 1 }
+
+/** The unit of time the selector picks */
+export type Granularity = 'year' | 'quarter' | 'month' | 'week' | 'day'
+
+/** A period of time, from its first day to its last day (inclusive) */
+export interface Period {
+  start: Date
+  end: Date
+}
+
+/** A selectable tick in the popup */
+export interface PeriodItem extends Period {
+  /** Short name shown under the popup bar, e.g. "Mar" or "Q1" */
+  name: string
+  /** Full name used for assistive technology, e.g. "March 2019" */
+  label: string
+  disabled: boolean
+  /** Item count for the period, when densities are known at this level */
+  count: number | null
+}
+
+/** The unit of the ticks in the popup */
+export type PopupLevel = 'quarter' | 'month' | 'week' | 'day'
+
+/** Item counts per month, keyed 'YYYY-MM' or looked up through a callback */
+export type MonthCounts = Map<string, number> | ((date: Date) => number)
+
+/** A month on the density overlay */
+export interface DensityCell {
+  key: number
+  /** Offset along the bar, in percent */
+  start: number
+  /** Extent along the bar, in percent */
+  size: number
+  count: number
+  label: string
+}
+
+/** An event placed along a bar */
+export interface EventMark {
+  key: number
+  event: TimelineEvent
+  /** Offset along the bar, in percent */
+  start: number
+  /** Extent along the bar in percent, or null for a point */
+  size: number | null
+}
+
+/** Format a month as the 'YYYY-MM' key used by the `counts` map */
+export function toMonthKey(year: number, month: number) {
+  return `${String(year).padStart(4, '0')}-${String(month + 1).padStart(2, '0')}`
+}
+
+/** Read a 'YYYY-MM' or 'YYYY-MM-DD' string as the day it names, or null if malformed */
+export function parseDateString(value: string) {
+  const match = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(value)
+  if (!match) {
+    return null
+  }
+  const [year, month, day = 1] = match.slice(1).filter(Boolean).map(Number)
+  const date = new Date(year, month - 1, day)
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null
+}
+
+/** Format a day as a 'YYYY-MM-DD' string, or as 'YYYY-MM' without the day */
+export function toDateString(date: Date, withDay = true) {
+  const month = toMonthKey(date.getFullYear(), date.getMonth())
+  return withDay ? `${month}-${String(date.getDate()).padStart(2, '0')}` : month
+}
+
+/** Absolute month index (months since year 0) of a Gregorian month */
+export function toMonthIndex(year: number, month: number) {
+  return year * 12 + month
+}
+
+/** The first day of the Gregorian month at an absolute month index */
+export function fromMonthIndex(monthIndex: number) {
+  return new Date(Math.floor(monthIndex / 12), monthIndex % 12, 1)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** The start of the day a number of days from a date */
+export function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+/** Whether a date falls within a period */
+export function isWithin(date: Date, period: Period) {
+  return date >= period.start && date <= period.end
+}
+
+/** Whether two periods share at least one day */
+export function overlaps(a: Period, b: Period) {
+  return a.start <= b.end && a.end >= b.start
+}
+
+/** The days an event covers in a time zone, in order, ignoring times of day */
+export function getEventPeriod(
+  event: TimelineEvent,
+  timeZone: TimeZone = 'local'
+): Period {
+  const start = toZonedDay(event.date, timeZone)
+  const end = event.end ? toZonedDay(event.end, timeZone) : start
+  return start <= end ? { start, end } : { start: end, end: start }
+}
+
+/**
+ * The quarter of its year a month falls in, counting from 0. The 13th month
+ * of a leap year belongs to the last quarter.
+ */
+function getQuarter(calendar: Calendar, monthIndex: number) {
+  const yearStart = calendar.getYearStart(calendar.getYear(monthIndex))
+  return Math.min(3, Math.floor((monthIndex - yearStart) / 3))
+}
+
+/** The first day of the period containing a date */
+export function getPeriodStart(
+  date: Date,
+  granularity: Granularity,
+  firstDayOfWeek: number,
+  calendar: Calendar = GREGORIAN_CALENDAR
+) {
+  const monthIndex = calendar.toMonthIndex(date)
+  const yearStart = calendar.getYearStart(calendar.getYear(monthIndex))
+
+  switch (granularity) {
+    case 'year':
+      return calendar.fromMonthIndex(yearStart)
+    case 'quarter':
+      return calendar.fromMonthIndex(
+        yearStart + getQuarter(calendar, monthIndex) * 3
+      )
+    case 'month':
+      return calendar.fromMonthIndex(monthIndex)
+    case 'week':
+      return addDays(date, -((date.getDay() - firstDayOfWeek + 7) % 7))
+    case 'day':
+      return addDays(date, 0)
+  }
+}
+
+/** The period of a given granularity that starts on a date */
+export function getPeriod(
+  start: Date,
+  granularity: Granularity,
+  calendar: Calendar = GREGORIAN_CALENDAR
+): Period {
+  const monthIndex = calendar.toMonthIndex(start)
+  const nextYearStart = calendar.getYearStart(calendar.getYear(monthIndex) + 1)
+  // The day before the month some number of months on
+  const endBefore = (next: number) => addDays(calendar.fromMonthIndex(next), -1)
+
+  switch (granularity) {
+    case 'year':
+      return { start, end: endBefore(nextYearStart) }
+    case 'quarter':
+      return {
+        start,
+        end: endBefore(
+          getQuarter(calendar, monthIndex) === 3
+            ? nextYearStart
+            : monthIndex + 3
+        ),
+      }
+    case 'month':
+      return { start, end: endBefore(monthIndex + 1) }
+    case 'week':
+      return { start, end: addDays(start, 6) }
+    case 'day':
+      return { start, end: start }
+  }
+}
+
+/**
+ * A period's full name, e.g. "March 2019" or "Q1 2019". Years and quarters
+ * follow the calendar's years, e.g. "Q1 2023/24" for a fiscal one.
+ */
+export function formatPeriod(
+  start: Date,
+  granularity: Granularity,
+  locale: string,
+  calendar: Calendar = getCalendar(locale)
+) {
+  const formatYear = () => {
+    const year = calendar.getYear(calendar.toMonthIndex(start))
+    return (
+      calendar.formatYear?.(year, locale) ??
+      getDateFormat(locale, { year: 'numeric' }).format(
+        calendar.fromMonthIndex(calendar.getYearStart(year))
+      )
+    )
+  }
+
+  switch (granularity) {
+    case 'year':
+      return formatYear()
+    case 'quarter': {
+      const quarter = getQuarter(calendar, calendar.toMonthIndex(start)) + 1
+      return `Q${getNumberFormat(locale).format(quarter)} ${formatYear()}`
+    }
+    case 'month':
+      return getDateFormat(locale, {
+        month: 'long',
+        year: 'numeric',
+      }).format(start)
+    case 'week': {
+      const formatter = getDateFormat(locale, {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+      })
+      return `${formatter.format(start)} – ${formatter.format(addDays(start, 6))}`
+    }
+    case 'day':
+      return getDateFormat(locale, {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+      }).format(start)
+  }
+}
+
+/** Share of the average month's weight every month keeps on a weighted scale */
+const WEIGHTED_MIN_SHARE = 0.1
+
+/**
+ * Lay the months between two month indexes out along the bar.
+ * The 'equal' scale covers whole years, so partial years at the edges keep
+ * their out-of-range months; the other scales only cover months in range.
+ * A last month before the first is taken as the first, so the layout always
+ * has a slot.
+ */
+export function buildTimelineLayout(
+  minMonthIndex: number,
+  maxMonthIndex: number,
+  sort: 'ascending' | 'descending',
+  scale: TimelineScale,
+  monthCounts: Map<number, number> | null,
+  calendar: Calendar = GREGORIAN_CALENDAR
+): TimelineLayout {
+  const { getYear, getYearStart } = calendar
+  const lastMonthIndex = Math.max(minMonthIndex, maxMonthIndex)
+  const first =
+    scale === 'equal' ? getYearStart(getYear(minMonthIndex)) : minMonthIndex
+  const last =
+    scale === 'equal'
+      ? getYearStart(getYear(lastMonthIndex) + 1) - 1
+      : lastMonthIndex
+
+  const indexes = Array.from({ length: last - first + 1 }, (_, i) => first + i)
+  if (sort === 'descending') {
+    indexes.reverse()
+  }
+
+  // Months share their year's space evenly, even in 13-month years. Weighed
+  // against 12 so Gregorian months keep whole weights and exact boundaries.
+  let weights = indexes.map((index) =>
+    scale === 'equal'
+      ? 12 / (getYearStart(getYear(index) + 1) - getYearStart(getYear(index)))
+      : 1
+  )
+  if (scale === 'weighted' && monthCounts) {
+    const counts = indexes.map((index) => monthCounts.get(index) ?? 0)
+    const average =
+      counts.reduce((sum, count) => sum + count, 0) / counts.length
+    // Keep empty months reachable, and fall back to linear without content
+    weights =
+      average > 0
+        ? counts.map((count) => count + average * WEIGHTED_MIN_SHARE)
+        : weights
+  }
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+
+  const slots: MonthSlot[] = []
+  const years: YearSegment[] = []
+  let offset = 0
+  indexes.forEach((monthIndex, i) => {
+    const start = offset / total
+    offset += weights[i]
+    const end = i === indexes.length - 1 ? 1 : offset / total
+    slots.push({ monthIndex, start, end })
+
+    const year = getYear(monthIndex)
+    const segment = years[years.length - 1]
+    if (segment?.year === year) {
+      segment.end = end
+    } else {
+      years.push({ year, start, end })
+    }
+  })
+
+  return { calendar, slots, years }
+}
+
+/** Map a 0-1 position along the bar to the absolute month index under it */
+export function ratioToMonthIndex(layout: TimelineLayout, ratio: number) {
+  const { slots } = layout
+  let low = 0
+  let high = slots.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (slots[mid].start <= ratio) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return slots[low].monthIndex
+}
+
+/** Whether a layout runs newest first */
+export function isDescendingLayout({ slots }: TimelineLayout) {
+  return slots.length > 1 && slots[1].monthIndex < slots[0].monthIndex
+}
+
+/** The slot for a month, or the nearest one when it is off the bar */
+export function getMonthSlot(layout: TimelineLayout, monthIndex: number) {
+  const { slots } = layout
+  const position = isDescendingLayout(layout)
+    ? slots[0].monthIndex - monthIndex
+    : monthIndex - slots[0].monthIndex
+  return slots[Math.max(0, Math.min(slots.length - 1, position))]
+}
+
+/** Map a month to the 0-1 position of its centre along the bar */
+export function monthIndexToRatio(layout: TimelineLayout, monthIndex: number) {
+  const slot = getMonthSlot(layout, monthIndex)
+  return (slot.start + slot.end) / 2
+}
+
+/**
+ * Map a moment to its 0-1 position along the bar, `dayOffset` days into the
+ * given date
+ */
+export function dateToRatio(
+  layout: TimelineLayout,
+  date: Date,
+  dayOffset: number
+) {
+  const { calendar } = layout
+  const monthIndex = calendar.toMonthIndex(date)
+  const slot = getMonthSlot(layout, monthIndex)
+  const monthStart = calendar.fromMonthIndex(monthIndex)
+  // Rounded, as days around a daylight saving change are not 24 hours long
+  const [day, daysInMonth] = [
+    addDays(date, 0),
+    calendar.fromMonthIndex(monthIndex + 1),
+  ].map((end) => Math.round((end.getTime() - monthStart.getTime()) / DAY_MS))
+  const share = ((day + dayOffset) / daysInMonth) * (slot.end - slot.start)
+  return isDescendingLayout(layout) ? slot.end - share : slot.start + share
+}
+
+/**
+ * The stretch of the layout covering a span of months. Windows reaching the
+ * first or last month in range extend to the end of the layout, so the
+ * partial years of the 'equal' scale stay visible.
+ */
+export function getViewWindow(
+  layout: TimelineLayout,
+  first: number,
+  last: number,
+  minMonthIndex: number,
+  maxMonthIndex: number
+): ViewWindow {
+  const from = getMonthSlot(layout, first)
+  const to = getMonthSlot(layout, last)
+  const ascending = from.start <= to.start
+  let start = Math.min(from.start, to.start)
+  let end = Math.max(from.end, to.end)
+  if (first <= minMonthIndex) {
+    if (ascending) {
+      start = 0
+    } else {
+      end = 1
+    }
+  }
+  if (last >= maxMonthIndex) {
+    if (ascending) {
+      end = 1
+    } else {
+      start = 0
+    }
+  }
+  return { start, end }
+}
+
+/** Keep a window within the layout, no wider than all of it */
+export function clampViewWindow(view: ViewWindow): ViewWindow {
+  const width = Math.min(1, view.end - view.start)
+  const start = Math.max(0, Math.min(1 - width, view.start))
+  return { start, end: start + width }
+}
+
+/**
+ * Map a 0-1 position along the bar to the absolute month under it. The view
+ * window is the stretch of the layout the bar shows, all of it by default.
+ */
+export function positionToMonth(
+  layout: TimelineLayout,
+  position: number,
+  view: ViewWindow = FULL_VIEW
+) {
+  return ratioToMonthIndex(
+    layout,
+    view.start + position * (view.end - view.start)
+  )
+}
+
+/** Map a month to the 0-1 position of its centre along the bar */
+export function monthToPosition(
+  layout: TimelineLayout,
+  monthIndex: number,
+  view: ViewWindow = FULL_VIEW
+) {
+  return (
+    (monthIndexToRatio(layout, monthIndex) - view.start) /
+    (view.end - view.start)
+  )
+}
+
+/** Years starting inside a view window, in display order */
+export function getVisibleYears(
+  layout: TimelineLayout,
+  view: ViewWindow = FULL_VIEW
+) {
+  return layout.years.filter(
+    ({ start }) => start >= view.start && start < view.end
+  )
+}
+
+/** Years between labels, tried in turn until the labels stop crowding */
+const YEAR_LABEL_STEPS = [1, 2, 5, 10, 20, 50, 100]
+
+/**
+ * Pick the years to label along a bar `length` pixels long, keeping labels at
+ * least `spacing` pixels apart. Tries every year, then every 2nd, 5th, decade
+ * and so on, and still drops labels crowding a neighbour on uneven scales.
+ * `pinned` years are always labelled, pushing aside the labels next to them.
+ * Without a measured length every visible year is returned.
+ */
+export function getYearLabels(
+  layout: TimelineLayout,
+  view: ViewWindow,
+  length: number,
+  spacing: number,
+  pinned: number[] = []
+) {
+  const years = getVisibleYears(layout, view)
+  if (length <= 0) {
+    return years
+  }
+
+  const offset = ({ start }: YearSegment) =>
+    ((start - view.start) / (view.end - view.start)) * length
+  const isClear = (label: YearSegment, others: YearSegment[]) =>
+    others.every((other) => Math.abs(offset(other) - offset(label)) >= spacing)
+  const step =
+    YEAR_LABEL_STEPS.find((candidate) => {
+      const labels = years.filter(({ year }) => year % candidate === 0)
+      return labels.every(
+        (label, i) => i === 0 || isClear(label, [labels[i - 1]])
+      )
+    }) ?? YEAR_LABEL_STEPS[YEAR_LABEL_STEPS.length - 1]
+
+  const pinnedLabels = years.filter(({ year }) => pinned.includes(year))
+  const labels: YearSegment[] = []
+  for (const label of years) {
+    if (pinned.includes(label.year)) {
+      labels.push(label)
+    } else if (
+      label.year % step === 0 &&
+      isClear(label, [...pinnedLabels, ...labels])
+    ) {
+      labels.push(label)
+    }
+  }
+  return labels
+}
+
+/**
+ * The month some years on from another, at the same place in its year or at
+ * the year's last month when the year is shorter
+ */
+export function addYears(
+  calendar: Calendar,
+  monthIndex: number,
+  years: number
+) {
+  const year = calendar.getYear(monthIndex)
+  const offset = monthIndex - calendar.getYearStart(year)
+  const yearStart = calendar.getYearStart(year + years)
+  return Math.min(
+    yearStart + offset,
+    calendar.getYearStart(year + years + 1) - 1
+  )
+}
+
+/**
+ * The month nearest `monthIndex` in range that isn't disabled, or null if
+ * there is none. A `direction` of 1 or -1 only looks later or earlier.
+ */
+export function findEnabledMonth(
+  monthIndex: number,
+  minMonthIndex: number,
+  maxMonthIndex: number,
+  disabledMonths: ReadonlySet<number> | null,
+  direction: -1 | 0 | 1 = 0
+) {
+  const isEnabled = (index: number) =>
+    index >= minMonthIndex &&
+    index <= maxMonthIndex &&
+    !disabledMonths?.has(index)
+  for (
+    let distance = 0;
+    distance <= maxMonthIndex - minMonthIndex;
+    distance++
+  ) {
+    const candidates =
+      direction === 0
+        ? [monthIndex - distance, monthIndex + distance]
+        : [monthIndex + distance * direction]
+    const found = candidates.find(isEnabled)
+    if (found !== undefined) {
+      return found
+    }
+  }
+  return null
+}
+
+/** Whether a period lies wholly outside the range from `startDate` to `endDate` */
+export function isPeriodDisabled(
+  period: Period,
+  startDate: Date,
+  endDate: Date
+) {
+  return period.end < addDays(startDate, 0) || period.start > endDate
+}
+
+/** Whether a month lies wholly outside the range from `startDate` to `endDate` */
+export function isMonthDisabled(
+  monthIndex: number,
+  startDate: Date,
+  endDate: Date,
+  calendar: Calendar = GREGORIAN_CALENDAR
+) {
+  return isPeriodDisabled(
+    getPeriod(calendar.fromMonthIndex(monthIndex), 'month', calendar),
+    startDate,
+    endDate
+  )
+}
@@ -0,0 +1,3180 @@
+import {
+  useState,
+  useCallback,
+  useMemo,
+  useRef,
+  useEffect,
+  useLayoutEffect,
+} from 'react'
+import {
+  getCalendar,
+  hasGregorianMonths,
+  normalizeYearStartMonth,
+  withYearStart,
+  type Calendar,
+} from './calendar'
+import {
+  FULL_VIEW,
+  addDays,
+  buildTimelineLayout,
+  clampViewWindow,
+  dateToRatio,
+  findEnabledMonth,
+  formatPeriod,
+  getEventPeriod,
+  getMonthSlot,
+  getPeriod,
+  getPeriodStart,
+  getViewWindow,
+  getVisibleYears,
+  isPeriodDisabled,
+  addYears,
+  isWithin,
+  monthIndexToRatio,
+  monthToPosition,
+  overlaps,
+  positionToMonth,
+  parseDateString,
+  ratioToMonthIndex,
+  toDateString,
+  toMonthKey,
+  type DateRange,
+  type DensityCell,
+  type EventMark,
+  type Granularity,
+  type MonthCounts,
+  type Period,
+  type PeriodItem,
+  type PopupLevel,
+  type TimelineEvent,
+  type TimelineLayout,
+  type TimelineScale,
+  type ViewWindow,
+  type YearSegment,
+} from './timeline'
+import { getDateFormat, getNumberFormat } from './format'
+import { fromZonedDay, toZonedDay, type TimeZone } from './timeZone'
+
+interface DateSelectorOptionsBase {
+  /** The start date for the timeline (required) */
+  startDate: Date
+  /**
+   * The end date for the timeline (defaults to today). One before `startDate`
+   * is taken as `startDate`, leaving a single day.
+   */
+  endDate?: Date
+  /** Orientation of the timeline bar */
+  orientation?: 'horizontal' | 'vertical'
+  /** Sort order for dates (default: 'descending' - newest first) */
+  sort?: 'ascending' | 'descending'
+  /**
+   * How time maps onto the bar (default: 'equal'). 'equal' gives every year
+   * the same space, 'linear' every month in range, and 'weighted' sizes months
+   * by their `counts`.
+   */
+  scale?: TimelineScale
+  /**
+   * Let the wheel, a pinch or the +/- keys zoom the bar and a drag pan it
+   * (default: false). A mini-map of the full range shows while zoomed in.
+   */
+  zoomable?: boolean
+  /** First month shown on the bar, to control the zoomed-in window */
+  viewStart?: Date
+  /** Last month shown on the bar, to control the zoomed-in window */
+  viewEnd?: Date
+  /** Callback when the window is zoomed or panned, with its first and last months */
+  onViewChange?: (view: DateRange) => void
+  /**
+   * The unit of time to pick (default: 'month'). Weeks and days drill down
+   * from the chosen month inside the popup.
+   */
+  granularity?: Granularity
+  /** First day of the week for week granularity (default: 0 - Sunday) */
+  firstDayOfWeek?: 0 | 1 | 2 | 3 | 4 | 5 | 6
+  /**
+   * Month years begin in, counting from 0 for the locale's first month
+   * (default: 0). 3 gives fiscal years from April and 7 school years from
+   * August. The bar's years, the popup's months and quarters, and which
+   * years count as disabled all follow it. Other values are wrapped into 0-11,
+   * so 12 is 0 and -1 is 11, and fractions are rounded down.
+   */
+  yearStartMonth?: number
+  /**
+   * Name a year from its first and last days, e.g. as "FY2024". Years not
+   * starting in the first month are named like "2023/24" by default.
+   */
+  formatYear?: (start: Date, end: Date) => string
+  /**
+   * Locale for formatting (default: 'en-US'). Its calendar sets where months
+   * and years begin, e.g. 'fa' or 'he-u-ca-hebrew', and its numbering system
+   * the digits, e.g. 'ar-EG-u-nu-arab'.
+   */
+  locale?: string
+  /**
+   * Text direction (default: inherited from the page). 'rtl' runs a
+   * horizontal bar and its popup from right to left.
+   */
+  dir?: 'ltr' | 'rtl'
+  /**
+   * Time zone days are counted in (default: 'local'). Dates given are placed
+   * on the day they fall on there, and dates handed back are midnight there,
+   * so with 'UTC' a UTC midnight never slips into the day before.
+   */
+  timeZone?: TimeZone
+  /**
+   * Number of items per month, shown as a density overlay on the bars.
+   * Either a map keyed by 'YYYY-MM', in the locale's calendar, or a callback
+   * receiving the first day of each month.
+   */
+  counts?: MonthCounts
+  /** Labelled points or spans in time, marked on the bar and in the popup */
+  events?: TimelineEvent[]
+  /**
+   * The months that can be picked, keyed by 'YYYY-MM' in the locale's
+   * calendar. Others are shown as gaps on the bar and skipped over.
+   */
+  availableMonths?: Iterable<string>
+  /**
+   * Disable periods by their first day, given at midnight in the time zone.
+   * Called for every month, and for every week or day when picking those.
+   */
+  isDateDisabled?: (date: Date, unit: 'month' | 'week' | 'day') => boolean
+  /**
+   * A moment to mark on the bar apart from the selection, such as the one
+   * scrolled to in a list beside it (see `useTimelineScrollSync`)
+   */
+  currentDate?: Date | null
+  /**
+   * Step the selection along the bar on a timer, as a slideshow (default:
+   * false). It moves forward in time when sorted oldest first and back in
+   * time when sorted newest first, skipping disabled periods. Leave it out to
+   * start and stop playback with `play` and `pause`. Single mode only, and
+   * never while disabled or read-only.
+   */
+  playing?: boolean
+  /** Callback when playback starts or stops, including at the end of the bar */
+  onPlayingChange?: (playing: boolean) => void
+  /** Time between playback steps, in ms (default: 1000) */
+  playInterval?: number
+  /** Periods moved per playback step (default: 1) */
+  playStep?: number
+  /** Start over from the other end when playback reaches the end (default: false) */
+  loop?: boolean
+  /**
+   * Callback when the pointer or keyboard rests on a month for `previewDelay`,
+   * e.g. to prefetch its content, with the month's first day. Receives null
+   * once nothing is previewed.
+   */
+  onPreviewChange?: (date: Date | null) => void
+  /** How long a preview must rest on a month to count, in ms (default: 150) */
+  previewDelay?: number
+  /**
+   * Load what is in a month, e.g. thumbnails, to show in the popup while it is
+   * previewed. The signal aborts once the preview moves on. Keep it stable,
+   * e.g. with `useCallback`, as a new loader drops the previews loaded so far.
+   */
+  loadMonthPreview?: (date: Date, signal: AbortSignal) => Promise<unknown>
+  /** Number of loaded month previews kept, least recently used going first (default: 50) */
+  previewCacheSize?: number
+  /** Name the value is submitted under in a form */
+  name?: string
+  /** Ignore all input, and leave the value out of form submits */
+  disabled?: boolean
+  /** Let the bar be browsed without changing the value */
+  readOnly?: boolean
+  /** Fail form validation while nothing is selected */
+  required?: boolean
+  /** Callback when focus leaves the selector, e.g. to mark a field touched */
+  onBlur?: () => void
+}
+
+/** An inclusive span of periods, each given as a 'YYYY-MM' or 'YYYY-MM-DD' string */
+export interface DateStringRange {
+  start: string
+  end: string
+}
+
+export interface SingleDateSelectorOptions extends DateSelectorOptionsBase {
+  /** Selection mode (default: 'single') */
+  mode?: 'single'
+  /** Take and emit `value` as `Date`s (default) */
+  valueType?: 'date'
+  /** The currently selected period, given as its first day */
+  value?: Date | null
+  /** The period selected at first when `value` is left out */
+  defaultValue?: Date | null
+  /** Callback when a period is selected or cleared, receiving its first day */
+  onChange?: (date: Date | null) => void
+}
+
+export interface SingleStringDateSelectorOptions extends DateSelectorOptionsBase {
+  mode?: 'single'
+  /**
+   * Take and emit `value` as strings: 'YYYY-MM' when picking years, quarters
+   * or months, and 'YYYY-MM-DD' when picking weeks or days or when the
+   * locale's months are not Gregorian ones
+   */
+  valueType: 'string'
+  /** The currently selected period, e.g. '2019-03' */
+  value?: string | null
+  /** The period selected at first when `value` is left out */
+  defaultValue?: string | null
+  /** Callback when a period is selected or cleared, receiving its first day */
+  onChange?: (value: string | null) => void
+}
+
+export interface RangeDateSelectorOptions extends DateSelectorOptionsBase {
+  /** Select a span of periods: the first pick sets an anchor, the next the end */
+  mode: 'range'
+  /** Take and emit `value` as `Date`s (default) */
+  valueType?: 'date'
+  /** The currently selected range */
+  value?: DateRange | null
+  /** The range selected at first when `value` is left out */
+  defaultValue?: DateRange | null
+  /** Callback when a range is completed or cleared */
+  onChange?: (range: DateRange | null) => void
+}
+
+export interface RangeStringDateSelectorOptions extends DateSelectorOptionsBase {
+  mode: 'range'
+  /** Take and emit `value` as strings, as in single mode */
+  valueType: 'string'
+  /** The currently selected range, e.g. { start: '2019-03', end: '2019-06' } */
+  value?: DateStringRange | null
+  /** The range selected at first when `value` is left out */
+  defaultValue?: DateStringRange | null
+  /** Callback when a range is completed or cleared */
+  onChange?: (range: DateStringRange | null) => void
+}
+
+export interface MultipleDateSelectorOptions extends DateSelectorOptionsBase {
+  /** Select any number of periods, each pick toggling one on or off */
+  mode: 'multiple'
+  /** Take and emit `value` as `Date`s (default) */
+  valueType?: 'date'
+  /** The currently selected periods, each given as its first day */
+  value?: Date[]
+  /** The periods selected at first when `value` is left out */
+  defaultValue?: Date[]
+  /** Callback when a period is toggled or all are cleared, receiving them in order */
+  onChange?: (dates: Date[]) => void
+}
+
+export interface MultipleStringDateSelectorOptions extends DateSelectorOptionsBase {
+  mode: 'multiple'
+  /** Take and emit `value` as strings, as in single mode */
+  valueType: 'string'
+  /** The currently selected periods, e.g. ['2018-12', '2019-12'] */
+  value?: string[]
+  /** The periods selected at first when `value` is left out */
+  defaultValue?: string[]
+  /** Callback when a period is toggled or all are cleared, receiving them in order */
+  onChange?: (values: string[]) => void
+}
+
+/** The props of `DateSelector` that drive its behaviour */
+export type DateSelectorOptions =
+  | SingleDateSelectorOptions
+  | SingleStringDateSelectorOptions
+  | RangeDateSelectorOptions
+  | RangeStringDateSelectorOptions
+  | MultipleDateSelectorOptions
+  | MultipleStringDateSelectorOptions
+
+/** What `loadMonthPreview` has produced for a month so far */
+export interface MonthPreview {
+  /** The month's first day, at midnight in the time zone */
+  date: Date
+  status: 'loading' | 'loaded' | 'error'
+  /** What the loader resolved with, once loaded */
+  data: unknown
+  /** What the loader rejected with, on error */
+  error: unknown
+}
+
+/** Props for the element acting as the timeline bar */
+export interface DateSelectorBarProps {
+  ref: (node: Element | null) => void
+  role: 'slider'
+  tabIndex: number
+  'aria-label': string
+  'aria-orientation': 'horizontal' | 'vertical'
+  'aria-valuemin': number
+  'aria-valuemax': number
+  'aria-valuenow': number
+  'aria-valuetext': string
+  'aria-disabled': boolean
+  'aria-readonly': boolean
+  onPointerDown: (e: React.PointerEvent<Element>) => void
+  onPointerMove: (e: React.PointerEvent<Element>) => void
+  onPointerUp: (e: React.PointerEvent<Element>) => void
+  onPointerCancel: (e: React.PointerEvent<Element>) => void
+  onPointerLeave: (e: React.PointerEvent<Element>) => void
+  onClick: () => void
+  onKeyDown: (e: React.KeyboardEvent<Element>) => void
+  onBlur: (e: React.FocusEvent<Element>) => void
+  style: React.CSSProperties
+}
+
+/**
+ * Props for an input carrying the value in form submits, as 'YYYY-MM' or
+ * 'YYYY-MM-DD' strings, joined by a slash for a range and by commas in
+ * multiple mode. Render it as a visually hidden text input rather than
+ * `type="hidden"`, which skips validation.
+ */
+export interface DateSelectorInputProps {
+  ref: (node: HTMLInputElement | null) => void
+  name?: string
+  value: string
+  required: boolean
+  disabled: boolean
+  tabIndex: -1
+  'aria-hidden': true
+  onChange: () => void
+  /** Hands focus on to the bar, e.g. when validation fails */
+  onFocus: () => void
+}
+
+/** Props for the element holding the popup */
+export interface DateSelectorPopupProps {
+  ref: (node: Element | null) => void
+  onMouseEnter: () => void
+  onMouseLeave: () => void
+  onPointerDown: (e: React.PointerEvent<Element>) => void
+}
+
+export interface UseDateSelectorResult {
+  mode: 'single' | 'range' | 'multiple'
+  orientation: 'horizontal' | 'vertical'
+  sort: 'ascending' | 'descending'
+  locale: string
+  /** The text direction in effect, given or inherited */
+  dir: 'ltr' | 'rtl'
+  /** Month and year arithmetic for the locale's calendar, with years from `yearStartMonth` */
+  calendar: Calendar
+  /** The time zone days are counted in */
+  timeZone: TimeZone
+  events: TimelineEvent[]
+  /** Where every month sits along the bar */
+  layout: TimelineLayout
+  /** The stretch of the layout the bar shows */
+  view: ViewWindow
+  /** First and last months shown when zoomed in, or null when showing all */
+  viewMonths: { first: number; last: number } | null
+  minMonthIndex: number
+  maxMonthIndex: number
+  /** Years starting inside the view, for ticks and labels */
+  visibleYears: YearSegment[]
+  /** Year at the start of the bar */
+  firstYear: number
+  /** Year at the end of the bar */
+  lastYear: number
+  /** Map a 0-1 layout ratio to its offset along the bar, in percent */
+  toViewPercent: (ratio: number) => number
+  densityCells: DensityCell[] | null
+  maxCount: number
+  eventMarkers: EventMark[]
+  /** Selected or previewed range along the bar, in percent */
+  rangeHighlight: { start: number; size: number } | null
+  /** Each period selected in multiple mode along the bar, in percent */
+  selectionHighlights: { key: number; start: number; size: number }[]
+  /**
+   * Months that can't be picked, by month index, or null when all in range
+   * can. With year or quarter granularity these are whole years or quarters.
+   */
+  disabledMonths: ReadonlySet<number> | null
+  /** Runs of disabled months along the bar, in percent */
+  gaps: { start: number; size: number }[]
+  /** Where `currentDate` sits along the bar in percent, or null if out of view */
+  currentPosition: number | null
+  isPlaying: boolean
+  /** Time between playback steps, in ms */
+  playInterval: number
+  /** Where the selection sits along the bar in percent while playing, else null */
+  playheadPosition: number | null
+  disabled: boolean
+  readOnly: boolean
+  /** The `value` in single mode, as its day in the time zone */
+  value: Date | null
+  /** The `value` in range mode, as days in the time zone */
+  range: DateRange | null
+  /** The `value` in multiple mode, as days in the time zone, in order */
+  values: Date[]
+  /** First day of the selected period in single mode */
+  selectedStart: Date | null
+  /** First days of the selected periods, in single or multiple mode */
+  selectedStarts: Date[]
+  selectedYear: number | null
+  /** Selected range, or the one being previewed from an anchor */
+  displayedRange: Period | null
+  /** The selected value as text, e.g. "March 2019" */
+  selectionLabel: string
+  hoverYear: number | null
+  hoverMonth: number | null
+  /** The month previewed long enough to count, by month index */
+  intentMonth: number | null
+  /** The preview loaded for `intentMonth`, or null without `loadMonthPreview` */
+  monthPreview: MonthPreview | null
+  /**
+   * Where the popup or scrub indicator sits, in pixels from the corner the bar
+   * starts at (the top right when running right to left)
+   */
+  hoverPosition: { x: number; y: number }
+  /**
+   * The previewed point on the bar in viewport coordinates, as a box as wide
+   * or tall as the bar, for placing a popup outside it. Null while closed.
+   */
+  getPopupAnchor: () => {
+    left: number
+    top: number
+    right: number
+    bottom: number
+  } | null
+  isScrubbing: boolean
+  isPanning: boolean
+  /** Whether dragging the bar pans it */
+  canPan: boolean
+  isPopupOpen: boolean
+  popupTitle: string
+  popupLevel: PopupLevel | null
+  popupItems: PeriodItem[]
+  popupMaxCount: number
+  highlightedIndex: number | null
+  /** Month whose weeks or days the popup shows */
+  drillMonth: number | null
+  /** The month the slider announces */
+  activeMonthIndex: number
+  activeLabel: string
+  /** The active label followed by any events in it */
+  activeValueText: string
+  commitMonth: (monthIndex: number) => void
+  commitPeriod: (period: Period) => void
+  /**
+   * Preview a month, or the nearest one that isn't disabled. A `direction`
+   * of 1 or -1 only looks later or earlier.
+   */
+  previewMonth: (monthIndex: number, direction?: -1 | 0 | 1) => void
+  closePopup: () => void
+  /** Move the view window, snapped to whole months */
+  changeView: (view: ViewWindow) => ViewWindow
+  /** Zoom by a factor around a 0-1 position on the bar */
+  zoomAt: (factor: number, position: number) => ViewWindow
+  /** Pick a popup tick */
+  selectItem: (index: number) => void
+  /** Highlight a popup tick, or clear the highlight */
+  highlightItem: (index: number | null) => void
+  /** Go back up from weeks or days to the months */
+  drillBack: () => void
+  /** Clear the selection and any range anchor */
+  clear: () => void
+  /** How many of a year's periods are selected in multiple mode */
+  getYearSelection: (year: number) => 'all' | 'some' | 'none'
+  /**
+   * Select every period of a year that can be picked in multiple mode, or
+   * deselect them all when they already are
+   */
+  toggleYear: (year: number) => void
+  /** Move focus to the bar */
+  focus: () => void
+  /** Start playback, from the start of the bar when it has reached the end */
+  play: () => void
+  pause: () => void
+  getRootProps: () => {
+    ref: (node: Element | null) => void
+    role: 'group'
+    'aria-label': string
+    dir: 'ltr' | 'rtl'
+  }
+  getBarProps: () => DateSelectorBarProps
+  getPopupProps: () => DateSelectorPopupProps
+  getInputProps: () => DateSelectorInputProps
+}
+
+const NO_EVENTS: TimelineEvent[] = []
+const NO_DATES: Date[] = []
+
+const ignore = () => {}
+
+// A disabled bar takes no input at all
+const DISABLED_BAR_HANDLERS = {
+  onPointerDown: ignore,
+  onPointerMove: ignore,
+  onPointerUp: ignore,
+  onPointerCancel: ignore,
+  onPointerLeave: ignore,
+  onClick: ignore,
+  onKeyDown: ignore,
+  onBlur: ignore,
+}
+
+// Left to the browser, a touch drag pans the page and cancels the pointers,
+// so it is kept from doing so however the bar is styled
+const BAR_STYLE: React.CSSProperties = { touchAction: 'none' }
+
+/** A given value as its day in a time zone, or null if it names none */
+function readValue(value: Date | string, timeZone: TimeZone) {
+  return typeof value === 'string'
+    ? parseDateString(value)
+    : toZonedDay(value, timeZone)
+}
+
+/** The selected day, range of days or days in multiple mode, in the time zone */
+type Selection = Date | DateRange | Date[] | null
+
+function sortDates(dates: Date[]) {
+  return [...dates].sort((a, b) => a.getTime() - b.getTime())
+}
+
+/** A given single, range or multiple value as days in a time zone */
+function readSelection(
+  value:
+    | Date
+    | string
+    | DateRange
+    | DateStringRange
+    | (Date | string)[]
+    | null
+    | undefined,
+  timeZone: TimeZone
+): Selection {
+  if (!value) {
+    return null
+  }
+  if (Array.isArray(value)) {
+    return sortDates(value.flatMap((item) => readValue(item, timeZone) ?? []))
+  }
+  if (value instanceof Date || typeof value === 'string') {
+    return readValue(value, timeZone)
+  }
+  const start = readValue(value.start, timeZone)
+  const end = readValue(value.end, timeZone)
+  return start && end ? { start, end } : null
+}
+
+/**
+ * A selection as the form value: a date string, two joined by a slash, or
+ * any number joined by commas
+ */
+function serializeSelection(selection: Selection, withDay: boolean) {
+  if (!selection) {
+    return ''
+  }
+  if (Array.isArray(selection)) {
+    return selection.map((date) => toDateString(date, withDay)).join(',')
+  }
+  return selection instanceof Date
+    ? toDateString(selection, withDay)
+    : `${toDateString(selection.start, withDay)}/${toDateString(selection.end, withDay)}`
+}
+
+/**
+ * Hand a selection to `onChange` in the form `value` is given in: strings, or
+ * dates at midnight in the time zone
+ */
+function emitChange(
+  options: DateSelectorOptions,
+  selection: Selection,
+  timeZone: TimeZone,
+  withDay: boolean
+) {
+  const write = (date: Date) => toDateString(date, withDay)
+  const toInstant = (date: Date) => fromZonedDay(date, timeZone)
+  if (options.mode === 'multiple') {
+    const dates = Array.isArray(selection) ? selection : NO_DATES
+    if (options.valueType === 'string') {
+      options.onChange?.(dates.map(write))
+    } else {
+      options.onChange?.(dates.map(toInstant))
+    }
+    return
+  }
+
+  const date = selection instanceof Date ? selection : null
+  const range =
+    selection instanceof Date || Array.isArray(selection) ? null : selection
+  if (options.mode !== 'range') {
+    if (options.valueType === 'string') {
+      options.onChange?.(date && write(date))
+    } else {
+      options.onChange?.(date && toInstant(date))
+    }
+  } else if (options.valueType === 'string') {
+    options.onChange?.(
+      range && { start: write(range.start), end: write(range.end) }
+    )
+  } else {
+    options.onChange?.(
+      range && { start: toInstant(range.start), end: toInstant(range.end) }
+    )
+  }
+}
+
+/** Most periods named in the selection label before it counts them instead */
+const MAX_LISTED_SELECTIONS = 3
+
+/** Swap the left and right arrows when the bar runs from the right */
+function getBarKey(key: string, isMirrored: boolean) {
+  if (isMirrored && key === 'ArrowLeft') {
+    return 'ArrowRight'
+  }
+  if (isMirrored && key === 'ArrowRight') {
+    return 'ArrowLeft'
+  }
+  return key
+}
+
+/** How long recent pointer samples count towards the release velocity (ms) */
+const VELOCITY_WINDOW = 100
+/** Release velocity (bar lengths per ms) below which a scrub commits in place */
+const MIN_MOMENTUM_VELOCITY = 0.0002
+/** Velocity retained per 16 ms frame while gliding after a fling */
+const MOMENTUM_FRICTION = 0.92
+/** How long the snapped indicator stays visible after committing (ms) */
+const SCRUB_SNAP_DURATION = 300
+
+interface ScrubState {
+  rect: DOMRect
+  samples: { ratio: number; time: number }[]
+}
+
+/** Fewest months a zoomed-in window can show */
+const MIN_VIEW_MONTHS = 12
+/** Zoom per pixel of wheel scrolling */
+const WHEEL_ZOOM_SPEED = 0.002
+/** Zoom per unit of a trackpad pinch, which browsers report as ctrl+wheel */
+const PINCH_ZOOM_SPEED = 0.01
+/** Zoom per press of the + and - keys */
+const KEY_ZOOM_FACTOR = 1.5
+/** Distance a mouse press travels on the bar before it becomes a pan (px) */
+const PAN_THRESHOLD = 4
+
+interface PanState {
+  rect: DOMRect
+  /** Pointer position along the bar when the press started, 0-1 */
+  origin: number
+  view: ViewWindow
+  moved: boolean
+}
+
+interface PinchState {
+  /** Layout ratios under each finger when the pinch started, by pointer */
+  anchors: Map<number, number>
+}
+
+export function useDateSelector(
+  options: DateSelectorOptions
+): UseDateSelectorResult {
+  const {
+    startDate: startDateProp,
+    endDate: endDateProp,
+    orientation = 'vertical',
+    sort = 'descending',
+    scale = 'equal',
+    zoomable = false,
+    viewStart: viewStartProp,
+    viewEnd: viewEndProp,
+    onViewChange,
+    granularity = 'month',
+    firstDayOfWeek = 0,
+    yearStartMonth: yearStartMonthOption = 0,
+    formatYear,
+    locale = 'en-US',
+    dir,
+    timeZone = 'local',
+    counts,
+    events = NO_EVENTS,
+    availableMonths,
+    isDateDisabled,
+    currentDate,
+    playing,
+    onPlayingChange,
+    playInterval = 1000,
+    playStep = 1,
+    loop = false,
+    onPreviewChange,
+    previewDelay = 150,
+    loadMonthPreview,
+    previewCacheSize = 50,
+    name,
+    disabled = false,
+    readOnly = false,
+    required = false,
+    onBlur,
+  } = options
+  const isRange = options.mode === 'range'
+  const isMultiple = options.mode === 'multiple'
+  const isControlled = options.value !== undefined
+
+  // Everything below works on days in the time zone, held as local midnights.
+  // Without a `value` the selection is kept here, starting from the default.
+  const [defaultSelection] = useState(() =>
+    readSelection(options.defaultValue, timeZone)
+  )
+  const [internalSelection, setInternalSelection] = useState(defaultSelection)
+  const controlledSelection = useMemo(
+    () => readSelection(options.value, timeZone),
+    [options.value, timeZone]
+  )
+  const selection = isControlled ? controlledSelection : internalSelection
+  const singleValue = !isRange && selection instanceof Date ? selection : null
+  const rangeValue =
+    isRange &&
+    selection &&
+    !(selection instanceof Date) &&
+    !Array.isArray(selection)
+      ? selection
+      : null
+  const multipleValue =
+    isMultiple && Array.isArray(selection) ? selection : NO_DATES
+  const hasSelection = Array.isArray(selection)
+    ? selection.length > 0
+    : selection !== null
+  const startDate = useMemo(
+    () => toZonedDay(startDateProp, timeZone),
+    [startDateProp, timeZone]
+  )
+  // An end before the start is taken as the start, leaving a single day
+  const endDate = useMemo(() => {
+    const day = toZonedDay(endDateProp || new Date(), timeZone)
+    return day < startDate ? startDate : day
+  }, [endDateProp, timeZone, startDate])
+  const viewStart = useMemo(
+    () => viewStartProp && toZonedDay(viewStartProp, timeZone),
+    [viewStartProp, timeZone]
+  )
+  const viewEnd = useMemo(
+    () => viewEndProp && toZonedDay(viewEndProp, timeZone),
+    [viewEndProp, timeZone]
+  )
+  // Kept in state so listeners follow the elements if they are swapped
+  const [containerNode, setContainerNode] = useState<Element | null>(null)
+  const [barNode, setBarNode] = useState<Element | null>(null)
+  const [inputNode, setInputNode] = useState<HTMLInputElement | null>(null)
+  // The popup may be rendered elsewhere, e.g. in a portal
+  const [popupNode, setPopupNode] = useState<Element | null>(null)
+  const closeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [hoverYear, setHoverYear] = useState<number | null>(null)
+  const [hoverMonth, setHoverMonth] = useState<number | null>(null)
+  const [hoverPosition, setHoverPosition] = useState({ x: 0, y: 0 })
+  const [isPopupHovered, setIsPopupHovered] = useState(false)
+  const [isScrubbing, setIsScrubbing] = useState(false)
+  const scrubRef = useRef<ScrubState | null>(null)
+  const momentumFrameRef = useRef<number | null>(null)
+  // The bar's box, kept between pointer moves rather than measured on each
+  const barRectRef = useRef<DOMRect | null>(null)
+  // The latest position to preview, applied on the next animation frame
+  const pendingHoverRef = useRef<{ ratio: number; rect: DOMRect } | null>(null)
+  const hoverFrameRef = useRef<number | null>(null)
+  const [rangeAnchor, setRangeAnchor] = useState<Period | null>(null)
+  // Month whose weeks or days are shown in the popup, as an absolute index
+  const [drillMonth, setDrillMonth] = useState<number | null>(null)
+  // Popup tick highlighted by hovering it or by the keyboard while drilled
+  const [popupIndex, setPopupIndex] = useState<number | null>(null)
+  const lastPointerTypeRef = useRef<string | null>(null)
+  // Where the mouse last moved over the bar, to follow it while scrolling
+  const lastMouseRef = useRef<{ clientX: number; clientY: number } | null>(null)
+  // Visible window when uncontrolled; null shows the whole range
+  const [internalView, setInternalView] = useState<DateRange | null>(null)
+  const [isPanning, setIsPanning] = useState(false)
+  const panRef = useRef<PanState | null>(null)
+  const pinchRef = useRef<PinchState | null>(null)
+  // Touch positions along the bar (0-1), by pointer, for pinch zooming
+  const touchesRef = useRef(new Map<number, number>())
+  // Set when a pan ends, so the click that follows doesn't select
+  const suppressClickRef = useRef(false)
+
+  // Month keys are read in the locale's calendar, and everything else in its
+  // years as shifted by `yearStartMonth`
+  const localeCalendar = useMemo(() => getCalendar(locale), [locale])
+  const yearStartMonth = normalizeYearStartMonth(yearStartMonthOption)
+  const calendar = useMemo(() => {
+    const getYearDay = (year: number) =>
+      localeCalendar.fromMonthIndex(
+        localeCalendar.getYearStart(year) + yearStartMonth
+      )
+    return withYearStart(
+      localeCalendar,
+      yearStartMonth,
+      formatYear &&
+        ((year) =>
+          formatYear(
+            fromZonedDay(getYearDay(year), timeZone),
+            fromZonedDay(addDays(getYearDay(year + 1), -1), timeZone)
+          ))
+    )
+  }, [localeCalendar, yearStartMonth, formatYear, timeZone])
+  // Days are needed to name a week or day, or a month not starting on the 1st
+  const withDay =
+    granularity === 'week' ||
+    granularity === 'day' ||
+    !hasGregorianMonths(calendar)
+
+  // The latest props are read through a ref, so that the prop getters and
+  // handle built on it keep their identity between renders
+  const applySelection = (next: Selection) => {
+    if (!isControlled) {
+      setInternalSelection(next)
+    }
+    emitChange(options, next, timeZone, withDay)
+  }
+  const applySelectionRef = useRef(applySelection)
+  const changeSelection = useCallback(
+    (next: Selection) => applySelectionRef.current(next),
+    []
+  )
+
+  // Playback is kept here when `playing` is left out
+  const [internalPlaying, setInternalPlaying] = useState(false)
+  const isPlayingControlled = playing !== undefined
+  const isPlaying =
+    (isPlayingControlled ? playing : internalPlaying) &&
+    !isRange &&
+    !isMultiple &&
+    !disabled &&
+    !readOnly
+  const applyPlaying = (next: boolean) => {
+    if (!isPlayingControlled) {
+      setInternalPlaying(next)
+    }
+    onPlayingChange?.(next)
+  }
+  const applyPlayingRef = useRef(applyPlaying)
+  const changePlaying = useCallback(
+    (next: boolean) => applyPlayingRef.current(next),
+    []
+  )
+  useLayoutEffect(() => {
+    applySelectionRef.current = applySelection
+    applyPlayingRef.current = applyPlaying
+  })
+
+  // Without a `dir`, follow the direction the selector is placed in
+  const [inheritedDir, setInheritedDir] = useState<'ltr' | 'rtl'>('ltr')
+  useLayoutEffect(() => {
+    const parent = containerNode?.parentElement
+    if (!dir && parent) {
+      setInheritedDir(
+        getComputedStyle(parent).direction === 'rtl' ? 'rtl' : 'ltr'
+      )
+    }
+  }, [dir, containerNode])
+  const resolvedDir = dir ?? inheritedDir
+  // Horizontal bars run from the right when right to left
+  const isMirrored = resolvedDir === 'rtl' && orientation === 'horizontal'
+
+  // The main bar resolves months; weeks and days are picked in the popup
+  const barGranularity =
+    granularity === 'week' || granularity === 'day' ? 'month' : granularity
+  const canDrill = barGranularity !== granularity
+
+  const selectedStart = useMemo(
+    () =>
+      singleValue
+        ? getPeriodStart(singleValue, granularity, firstDayOfWeek, calendar)
+        : null,
+    [singleValue, granularity, firstDayOfWeek, calendar]
+  )
+  // Every selected period's first day, for marking them in the popup
+  const selectedStarts = useMemo(
+    () =>
+      isMultiple
+        ? multipleValue.map((date) =>
+            getPeriodStart(date, granularity, firstDayOfWeek, calendar)
+          )
+        : selectedStart
+          ? [selectedStart]
+          : NO_DATES,
+    [
+      isMultiple,
+      multipleValue,
+      selectedStart,
+      granularity,
+      firstDayOfWeek,
+      calendar,
+    ]
+  )
+  const selectedMonthIndex = selectedStart
+    ? calendar.toMonthIndex(selectedStart)
+    : null
+  const selectedYear =
+    selectedMonthIndex !== null ? calendar.getYear(selectedMonthIndex) : null
+
+  const minMonthIndex = calendar.toMonthIndex(startDate)
+  const maxMonthIndex = calendar.toMonthIndex(endDate)
+
+  // Months ruled out by `availableMonths` or `isDateDisabled`
+  const unavailableMonths = useMemo(() => {
+    if (!availableMonths && !isDateDisabled) {
+      return null
+    }
+
+    const available = availableMonths && new Set(availableMonths)
+    const result = new Set<number>()
+    for (let index = minMonthIndex; index <= maxMonthIndex; index++) {
+      const year = localeCalendar.getYear(index)
+      const start = calendar.fromMonthIndex(index)
+      if (
+        (available &&
+          !available.has(
+            toMonthKey(year, index - localeCalendar.getYearStart(year))
+          )) ||
+        isDateDisabled?.(fromZonedDay(start, timeZone), 'month')
+      ) {
+        result.add(index)
+      }
+    }
+    return result
+  }, [
+    availableMonths,
+    isDateDisabled,
+    minMonthIndex,
+    maxMonthIndex,
+    calendar,
+    timeZone,
+  ])
+
+  // Months the bar skips. Years and quarters stay open while any of their
+  // months are.
+  const disabledMonths = useMemo(() => {
+    if (!unavailableMonths || barGranularity === 'month') {
+      return unavailableMonths
+    }
+
+    const periodStarts = new Map<number, number[]>()
+    for (let index = minMonthIndex; index <= maxMonthIndex; index++) {
+      const start = calendar.toMonthIndex(
+        getPeriodStart(
+          calendar.fromMonthIndex(index),
+          barGranularity,
+          firstDayOfWeek,
+          calendar
+        )
+      )
+      periodStarts.set(start, [...(periodStarts.get(start) ?? []), index])
+    }
+    const result = new Set<number>()
+    for (const months of periodStarts.values()) {
+      if (months.every((index) => unavailableMonths.has(index))) {
+        months.forEach((index) => result.add(index))
+      }
+    }
+    return result
+  }, [
+    unavailableMonths,
+    barGranularity,
+    minMonthIndex,
+    maxMonthIndex,
+    firstDayOfWeek,
+    calendar,
+  ])
+
+  // Periods whose months are all ruled out, or weeks and days ruled out
+  // themselves
+  const isPeriodUnavailable = useCallback(
+    (period: Period, unit: Granularity) => {
+      if (!unavailableMonths) {
+        return false
+      }
+      const first = calendar.toMonthIndex(period.start)
+      const last = calendar.toMonthIndex(period.end)
+      for (let index = first; index <= last; index++) {
+        if (!unavailableMonths.has(index)) {
+          return (
+            (unit === 'week' || unit === 'day') &&
+            !!isDateDisabled?.(fromZonedDay(period.start, timeZone), unit)
+          )
+        }
+      }
+      return true
+    },
+    [unavailableMonths, isDateDisabled, timeZone, calendar]
+  )
+
+  // The periods of a year that can be picked, at the granularity picked
+  const getYearPeriods = useCallback(
+    (year: number) => {
+      const yearPeriod = getPeriod(
+        calendar.fromMonthIndex(calendar.getYearStart(year)),
+        'year',
+        calendar
+      )
+      const result: Period[] = []
+      let start = getPeriodStart(
+        yearPeriod.start,
+        granularity,
+        firstDayOfWeek,
+        calendar
+      )
+      while (start <= yearPeriod.end) {
+        const period = getPeriod(start, granularity, calendar)
+        if (
+          !isPeriodDisabled(period, startDate, endDate) &&
+          !isPeriodUnavailable(period, granularity)
+        ) {
+          result.push(period)
+        }
+        start = addDays(period.end, 1)
+      }
+      return result
+    },
+    [
+      granularity,
+      firstDayOfWeek,
+      startDate,
+      endDate,
+      isPeriodUnavailable,
+      calendar,
+    ]
+  )
+
+  // Item count for every month in range, keyed by month index
+  const monthCounts = useMemo(() => {
+    if (!counts) {
+      return null
+    }
+
+    const result = new Map<number, number>()
+    for (let index = minMonthIndex; index <= maxMonthIndex; index++) {
+      const year = localeCalendar.getYear(index)
+      const count =
+        typeof counts === 'function'
+          ? counts(fromZonedDay(calendar.fromMonthIndex(index), timeZone))
+          : counts.get(
+              toMonthKey(year, index - localeCalendar.getYearStart(year))
+            )
+      result.set(index, count ?? 0)
+    }
+    return result
+  }, [counts, minMonthIndex, maxMonthIndex, calendar, timeZone])
+
+  const maxCount = useMemo(
+    () => (monthCounts ? Math.max(1, ...monthCounts.values()) : 1),
+    [monthCounts]
+  )
+
+  const layout = useMemo(
+    () =>
+      buildTimelineLayout(
+        minMonthIndex,
+        maxMonthIndex,
+        sort,
+        scale,
+        monthCounts,
+        calendar
+      ),
+    [minMonthIndex, maxMonthIndex, sort, scale, monthCounts, calendar]
+  )
+
+  const isViewControlled = viewStart !== undefined || viewEnd !== undefined
+
+  // First and last months on the bar when zoomed in, or null for all of them
+  const viewMonths = useMemo(() => {
+    const view = isViewControlled
+      ? { start: viewStart ?? startDate, end: viewEnd ?? endDate }
+      : internalView
+    if (!view) {
+      return null
+    }
+
+    const [first, last] = [view.start, view.end]
+      .map((date) =>
+        Math.max(
+          minMonthIndex,
+          Math.min(maxMonthIndex, calendar.toMonthIndex(date))
+        )
+      )
+      .sort((a, b) => a - b)
+    return first <= minMonthIndex && last >= maxMonthIndex
+      ? null
+      : { first, last }
+  }, [
+    isViewControlled,
+    viewStart,
+    viewEnd,
+    startDate,
+    endDate,
+    internalView,
+    minMonthIndex,
+    maxMonthIndex,
+    calendar,
+  ])
+
+  const view = useMemo(
+    () =>
+      viewMonths
+        ? getViewWindow(
+            layout,
+            viewMonths.first,
+            viewMonths.last,
+            minMonthIndex,
+            maxMonthIndex
+          )
+        : FULL_VIEW,
+    [viewMonths, layout, minMonthIndex, maxMonthIndex]
+  )
+  const viewSize = view.end - view.start
+  const toViewPercent = useCallback(
+    (ratio: number) => ((ratio - view.start) / viewSize) * 100,
+    [view, viewSize]
+  )
+
+  // Move the window, snapped to whole months. Returns the window moved to.
+  const changeView = useCallback(
+    (next: ViewWindow) => {
+      const { start, end } = clampViewWindow(next)
+      const [first, last] = [start, end - 1e-9]
+        .map((ratio) =>
+          Math.max(
+            minMonthIndex,
+            Math.min(maxMonthIndex, ratioToMonthIndex(layout, ratio))
+          )
+        )
+        .sort((a, b) => a - b)
+      const isFull = first <= minMonthIndex && last >= maxMonthIndex
+      const current = viewMonths ?? {
+        first: minMonthIndex,
+        last: maxMonthIndex,
+      }
+      if (
+        (first === current.first && last === current.last) ||
+        (!isFull && last - first + 1 < MIN_VIEW_MONTHS)
+      ) {
+        return view
+      }
+
+      const range = {
+        start: calendar.fromMonthIndex(first),
+        end: calendar.fromMonthIndex(last),
+      }
+      if (!isViewControlled) {
+        setInternalView(isFull ? null : range)
+      }
+      onViewChange?.({
+        start: fromZonedDay(range.start, timeZone),
+        end: fromZonedDay(range.end, timeZone),
+      })
+      return isFull
+        ? FULL_VIEW
+        : getViewWindow(layout, first, last, minMonthIndex, maxMonthIndex)
+    },
+    [
+      layout,
+      minMonthIndex,
+      maxMonthIndex,
+      viewMonths,
+      view,
+      isViewControlled,
+      onViewChange,
+      calendar,
+      timeZone,
+    ]
+  )
+
+  // Zoom by a factor, keeping the point at a 0-1 position on the bar in place
+  const zoomAt = useCallback(
+    (factor: number, position: number) => {
+      const anchor = view.start + position * viewSize
+      const size = viewSize * factor
+      return changeView({
+        start: anchor - position * size,
+        end: anchor + (1 - position) * size,
+      })
+    },
+    [view, viewSize, changeView]
+  )
+
+  const densityCells = useMemo(() => {
+    if (!monthCounts) {
+      return null
+    }
+
+    const formatter = getDateFormat(locale, {
+      month: 'long',
+      year: 'numeric',
+    })
+    const numberFormatter = getNumberFormat(locale)
+    const cells: DensityCell[] = []
+    monthCounts.forEach((count, index) => {
+      const slot = getMonthSlot(layout, index)
+      const start = Math.max(slot.start, view.start)
+      const end = Math.min(slot.end, view.end)
+      if (end <= start) {
+        return
+      }
+      cells.push({
+        key: index,
+        start: ((start - view.start) / viewSize) * 100,
+        size: ((end - start) / viewSize) * 100,
+        count,
+        label: `${formatter.format(calendar.fromMonthIndex(index))}: ${numberFormatter.format(count)}`,
+      })
+    })
+    return cells
+  }, [monthCounts, layout, view, viewSize, locale, calendar])
+
+  // Event markers on the main bar, clipped to the range and the view
+  const eventMarkers = useMemo(() => {
+    const rangeStart = calendar.fromMonthIndex(minMonthIndex)
+    const rangeEnd = getPeriod(
+      calendar.fromMonthIndex(maxMonthIndex),
+      'month',
+      calendar
+    ).end
+    const toPercent = (ratio: number) => ((ratio - view.start) / viewSize) * 100
+
+    return events.flatMap((event, key): EventMark[] => {
+      const period = getEventPeriod(event, timeZone)
+      if (!overlaps(period, { start: rangeStart, end: rangeEnd })) {
+        return []
+      }
+
+      if (event.end === undefined) {
+        const ratio = dateToRatio(layout, period.start, 0.5)
+        return ratio >= view.start && ratio <= view.end
+          ? [{ key, event, start: toPercent(ratio), size: null }]
+          : []
+      }
+
+      const ratios = [
+        dateToRatio(
+          layout,
+          period.start < rangeStart ? rangeStart : period.start,
+          0
+        ),
+        dateToRatio(layout, period.end > rangeEnd ? rangeEnd : period.end, 1),
+      ]
+      const start = Math.max(view.start, Math.min(...ratios))
+      const end = Math.min(view.end, Math.max(...ratios))
+      return end > start
+        ? [
+            {
+              key,
+              event,
+              start: toPercent(start),
+              size: ((end - start) / viewSize) * 100,
+            },
+          ]
+        : []
+    })
+  }, [
+    events,
+    layout,
+    view,
+    viewSize,
+    minMonthIndex,
+    maxMonthIndex,
+    calendar,
+    timeZone,
+  ])
+
+  const hoverMonthIndex =
+    hoverYear !== null && hoverMonth !== null
+      ? calendar.getYearStart(hoverYear) + hoverMonth
+      : null
+
+  const popupLevel: PopupLevel | null =
+    drillMonth !== null
+      ? granularity === 'week'
+        ? 'week'
+        : 'day'
+      : granularity === 'year'
+        ? null
+        : granularity === 'quarter'
+          ? 'quarter'
+          : 'month'
+
+  // Ticks for the popup: the hovered year's quarters or months, or the weeks
+  // or days of the month drilled into
+  const popupItems = useMemo(() => {
+    if (hoverYear === null || popupLevel === null) {
+      return []
+    }
+
+    const toItem = (
+      period: Period,
+      name: string,
+      count: number | null
+    ): PeriodItem => ({
+      ...period,
+      name,
+      label: formatPeriod(period.start, popupLevel, locale, calendar),
+      disabled:
+        isPeriodDisabled(period, startDate, endDate) ||
+        isPeriodUnavailable(period, popupLevel),
+      count,
+    })
+    const yearStart = calendar.getYearStart(hoverYear)
+    const monthsInYear = calendar.getYearStart(hoverYear + 1) - yearStart
+    const countMonths = (first: number, length: number) =>
+      monthCounts
+        ? Array.from(
+            { length },
+            (_, i) => monthCounts.get(first + i) ?? 0
+          ).reduce((sum, count) => sum + count, 0)
+        : null
+
+    switch (popupLevel) {
+      case 'quarter': {
+        const numberFormatter = getNumberFormat(locale)
+        return Array.from({ length: 4 }, (_, quarter) => {
+          const first = yearStart + quarter * 3
+          return toItem(
+            getPeriod(calendar.fromMonthIndex(first), 'quarter', calendar),
+            `Q${numberFormatter.format(quarter + 1)}`,
+            countMonths(first, quarter === 3 ? monthsInYear - 9 : 3)
+          )
+        })
+      }
+      case 'month': {
+        const formatter = getDateFormat(locale, { month: 'short' })
+        return Array.from({ length: monthsInYear }, (_, month) => {
+          const start = calendar.fromMonthIndex(yearStart + month)
+          return toItem(
+            getPeriod(start, 'month', calendar),
+            formatter.format(start),
+            countMonths(yearStart + month, 1)
+          )
+        })
+      }
+      case 'week':
+      case 'day': {
+        const monthStart = calendar.fromMonthIndex(drillMonth ?? 0)
+        const monthEnd = getPeriod(monthStart, 'month', calendar).end
+        const formatter = getDateFormat(locale, {
+          day: 'numeric',
+          month: 'short',
+        })
+        const result: PeriodItem[] = []
+        let start = getPeriodStart(monthStart, popupLevel, firstDayOfWeek)
+        while (start <= monthEnd) {
+          const period = getPeriod(start, popupLevel)
+          result.push(
+            toItem(
+              period,
+              popupLevel === 'week'
+                ? `${formatter.format(period.start)} – ${formatter.format(period.end)}`
+                : formatter.format(period.start),
+              null
+            )
+          )
+          start = addDays(period.end, 1)
+        }
+        return result
+      }
+    }
+  }, [
+    hoverYear,
+    popupLevel,
+    drillMonth,
+    startDate,
+    endDate,
+    monthCounts,
+    isPeriodUnavailable,
+    locale,
+    firstDayOfWeek,
+    calendar,
+  ])
+
+  // Quarter totals are scaled against each other rather than single months
+  const popupMaxCount =
+    popupLevel === 'quarter'
+      ? Math.max(1, ...popupItems.map((item) => item.count ?? 0))
+      : maxCount
+
+  // The popup tick to highlight: one hovered or focused in the popup, else the
+  // one under the cursor on the bar
+  const highlightedIndex =
+    popupIndex ??
+    (drillMonth === null && !isPopupHovered && hoverMonth !== null
+      ? popupLevel === 'quarter'
+        ? Math.min(3, Math.floor(hoverMonth / 3))
+        : popupLevel === 'month'
+          ? hoverMonth
+          : null
+      : null)
+  const highlightedItem =
+    highlightedIndex !== null ? popupItems[highlightedIndex] : undefined
+
+  // The period being previewed, at the finest level currently on screen
+  const hoveredPeriod = useMemo(() => {
+    if (highlightedItem) {
+      return { start: highlightedItem.start, end: highlightedItem.end }
+    }
+    if (hoverMonthIndex !== null) {
+      return getPeriod(
+        getPeriodStart(
+          calendar.fromMonthIndex(hoverMonthIndex),
+          barGranularity,
+          firstDayOfWeek,
+          calendar
+        ),
+        barGranularity,
+        calendar
+      )
+    }
+    return null
+  }, [
+    highlightedItem,
+    hoverMonthIndex,
+    barGranularity,
+    firstDayOfWeek,
+    calendar,
+  ])
+
+  // The month being previewed: a month tick highlighted in the popup, or else
+  // the month under the pointer or keyboard on the bar
+  const previewMonthIndex =
+    highlightedItem && popupLevel === 'month' && !highlightedItem.disabled
+      ? calendar.toMonthIndex(highlightedItem.start)
+      : hoverMonthIndex
+
+  // The previewed month once it has been rested on, so that sweeping across
+  // the bar doesn't report or load every month on the way
+  const [intentMonth, setIntentMonth] = useState<number | null>(null)
+  useEffect(() => {
+    if (previewMonthIndex === null) {
+      setIntentMonth(null)
+      return
+    }
+
+    const timeout = setTimeout(
+      () => setIntentMonth(previewMonthIndex),
+      previewDelay
+    )
+    return () => clearTimeout(timeout)
+  }, [previewMonthIndex, previewDelay])
+
+  // Read through a ref, as a new callback on every render mustn't report the
+  // same month again
+  const onPreviewChangeRef = useRef(onPreviewChange)
+  useLayoutEffect(() => {
+    onPreviewChangeRef.current = onPreviewChange
+  })
+
+  const reportedMonthRef = useRef<number | null>(null)
+  useEffect(() => {
+    if (reportedMonthRef.current === intentMonth) {
+      return
+    }
+    reportedMonthRef.current = intentMonth
+    onPreviewChangeRef.current?.(
+      intentMonth === null
+        ? null
+        : fromZonedDay(calendar.fromMonthIndex(intentMonth), timeZone)
+    )
+  }, [intentMonth, calendar, timeZone])
+
+  // Loaded previews by the month's 'YYYY-MM-DD', least recently used first.
+  // Each loader gets a cache of its own, so a new one, e.g. for another
+  // album, starts empty, and results still coming from the old one are lost.
+  const previewCacheRef = useRef({
+    load: loadMonthPreview,
+    entries: new Map<string, MonthPreview>(),
+  })
+  const [monthPreview, setMonthPreview] = useState<MonthPreview | null>(null)
+  useEffect(() => {
+    const load = loadMonthPreview
+    if (intentMonth === null || !load) {
+      setMonthPreview(null)
+      return
+    }
+    if (previewCacheRef.current.load !== load) {
+      previewCacheRef.current = { load, entries: new Map() }
+    }
+
+    const day = calendar.fromMonthIndex(intentMonth)
+    const date = fromZonedDay(day, timeZone)
+    const key = toDateString(day)
+    const cache = previewCacheRef.current.entries
+    const cached = cache.get(key)
+    if (cached) {
+      // Move it to the back, as the most recently used
+      cache.delete(key)
+      cache.set(key, cached)
+      setMonthPreview(cached)
+      return
+    }
+
+    const controller = new AbortController()
+    setMonthPreview({
+      date,
+      status: 'loading',
+      data: undefined,
+      error: undefined,
+    })
+    load(date, controller.signal).then(
+      (data) => {
+        const loaded: MonthPreview = {
+          date,
+          status: 'loaded',
+          data,
+          error: undefined,
+        }
+        cache.set(key, loaded)
+        while (cache.size > Math.max(0, previewCacheSize)) {
+          cache.delete(cache.keys().next().value as string)
+        }
+        if (!controller.signal.aborted) {
+          setMonthPreview(loaded)
+        }
+      },
+      // Failures aren't kept, so the month is tried again next time
+      (error: unknown) => {
+        if (!controller.signal.aborted) {
+          setMonthPreview({ date, status: 'error', data: undefined, error })
+        }
+      }
+    )
+    return () => controller.abort()
+  }, [intentMonth, loadMonthPreview, previewCacheSize, calendar, timeZone])
+
+  // The range to highlight: while an anchor is set, the span from it to the
+  // previewed period, otherwise the committed range
+  const displayedRange = useMemo((): Period | null => {
+    if (rangeAnchor !== null) {
+      if (!hoveredPeriod) {
+        return rangeAnchor
+      }
+      return {
+        start:
+          hoveredPeriod.start < rangeAnchor.start
+            ? hoveredPeriod.start
+            : rangeAnchor.start,
+        end:
+          hoveredPeriod.end > rangeAnchor.end
+            ? hoveredPeriod.end
+            : rangeAnchor.end,
+      }
+    }
+    if (rangeValue) {
+      return {
+        start: getPeriodStart(
+          rangeValue.start,
+          granularity,
+          firstDayOfWeek,
+          calendar
+        ),
+        end: getPeriod(
+          getPeriodStart(rangeValue.end, granularity, firstDayOfWeek, calendar),
+          granularity,
+          calendar
+        ).end,
+      }
+    }
+    return null
+  }, [
+    rangeAnchor,
+    hoveredPeriod,
+    rangeValue,
+    granularity,
+    firstDayOfWeek,
+    calendar,
+  ])
+
+  // The month currently announced by the slider: the previewed month while the
+  // popup is open, otherwise the selected month, otherwise the newest/oldest end
+  const activeMonthIndex =
+    hoverMonthIndex ??
+    selectedMonthIndex ??
+    (displayedRange
+      ? calendar.toMonthIndex(displayedRange.start)
+      : sort === 'descending'
+        ? maxMonthIndex
+        : minMonthIndex)
+
+  const activeLabel = useMemo(() => {
+    if (highlightedItem) {
+      return highlightedItem.label
+    }
+    if (hoverMonthIndex === null && selectedStart) {
+      return formatPeriod(selectedStart, granularity, locale, calendar)
+    }
+    return formatPeriod(
+      getPeriodStart(
+        calendar.fromMonthIndex(activeMonthIndex),
+        barGranularity,
+        firstDayOfWeek,
+        calendar
+      ),
+      barGranularity,
+      locale,
+      calendar
+    )
+  }, [
+    highlightedItem,
+    hoverMonthIndex,
+    selectedStart,
+    granularity,
+    barGranularity,
+    activeMonthIndex,
+    firstDayOfWeek,
+    locale,
+    calendar,
+  ])
+
+  // The active label, followed by any events in the period it names
+  const activeValueText = useMemo(() => {
+    const period =
+      hoveredPeriod ??
+      getPeriod(calendar.fromMonthIndex(activeMonthIndex), 'month', calendar)
+    const labels = events
+      .filter((event) => overlaps(period, getEventPeriod(event, timeZone)))
+      .map((event) => event.label)
+    return labels.length > 0
+      ? `${activeLabel}, ${labels.join(', ')}`
+      : activeLabel
+  }, [events, hoveredPeriod, activeMonthIndex, activeLabel, calendar, timeZone])
+
+  // Highlighted stretch of the main bar, in percent
+  const rangeHighlight = useMemo(() => {
+    if (!displayedRange) {
+      return null
+    }
+
+    const slots = [displayedRange.start, displayedRange.end].map((date) => {
+      const index = calendar.toMonthIndex(date)
+      return getMonthSlot(
+        layout,
+        Math.max(minMonthIndex, Math.min(maxMonthIndex, index))
+      )
+    })
+    const start = Math.max(
+      view.start,
+      Math.min(...slots.map((slot) => slot.start))
+    )
+    const end = Math.min(view.end, Math.max(...slots.map((slot) => slot.end)))
+    if (end <= start) {
+      return null
+    }
+    return {
+      start: ((start - view.start) / viewSize) * 100,
+      size: ((end - start) / viewSize) * 100,
+    }
+  }, [
+    displayedRange,
+    minMonthIndex,
+    maxMonthIndex,
+    layout,
+    view,
+    viewSize,
+    calendar,
+  ])
+
+  // Each selected period in multiple mode, clipped to the range and the view
+  const selectionHighlights = useMemo(() => {
+    if (!isMultiple) {
+      return []
+    }
+
+    const rangeStart = calendar.fromMonthIndex(minMonthIndex)
+    const rangeEnd = getPeriod(
+      calendar.fromMonthIndex(maxMonthIndex),
+      'month',
+      calendar
+    ).end
+
+    return selectedStarts.flatMap((start) => {
+      const period = getPeriod(start, granularity, calendar)
+      if (!overlaps(period, { start: rangeStart, end: rangeEnd })) {
+        return []
+      }
+      const ratios = [
+        dateToRatio(
+          layout,
+          period.start < rangeStart ? rangeStart : period.start,
+          0
+        ),
+        dateToRatio(layout, period.end > rangeEnd ? rangeEnd : period.end, 1),
+      ]
+      const from = Math.max(view.start, Math.min(...ratios))
+      const to = Math.min(view.end, Math.max(...ratios))
+      return to > from
+        ? [
+            {
+              key: start.getTime(),
+              start: ((from - view.start) / viewSize) * 100,
+              size: ((to - from) / viewSize) * 100,
+            },
+          ]
+        : []
+    })
+  }, [
+    isMultiple,
+    selectedStarts,
+    granularity,
+    minMonthIndex,
+    maxMonthIndex,
+    layout,
+    view,
+    viewSize,
+    calendar,
+  ])
+
+  const gaps = useMemo(() => {
+    if (!disabledMonths || disabledMonths.size === 0) {
+      return []
+    }
+
+    const result: { start: number; size: number }[] = []
+    let runStart: number | null = null
+    for (let index = minMonthIndex; index <= maxMonthIndex + 1; index++) {
+      if (index <= maxMonthIndex && disabledMonths.has(index)) {
+        runStart ??= index
+        continue
+      }
+      if (runStart === null) {
+        continue
+      }
+      const slots = [runStart, index - 1].map((i) => getMonthSlot(layout, i))
+      const start = Math.max(
+        view.start,
+        Math.min(...slots.map((slot) => slot.start))
+      )
+      const end = Math.min(view.end, Math.max(...slots.map((slot) => slot.end)))
+      if (end > start) {
+        result.push({
+          start: ((start - view.start) / viewSize) * 100,
+          size: ((end - start) / viewSize) * 100,
+        })
+      }
+      runStart = null
+    }
+    return result
+  }, [disabledMonths, minMonthIndex, maxMonthIndex, layout, view, viewSize])
+
+  const currentPosition = useMemo(() => {
+    if (!currentDate) {
+      return null
+    }
+
+    const day = toZonedDay(currentDate, timeZone)
+    const monthIndex = calendar.toMonthIndex(day)
+    if (monthIndex < minMonthIndex || monthIndex > maxMonthIndex) {
+      return null
+    }
+    const ratio = dateToRatio(layout, day, 0.5)
+    return ratio >= view.start && ratio <= view.end
+      ? ((ratio - view.start) / viewSize) * 100
+      : null
+  }, [
+    currentDate,
+    timeZone,
+    calendar,
+    minMonthIndex,
+    maxMonthIndex,
+    layout,
+    view,
+    viewSize,
+  ])
+
+  // Select a period: in range mode the first pick sets the anchor and the
+  // second completes the range
+  const commitPeriod = useCallback(
+    (period: Period) => {
+      if (readOnly) {
+        return
+      }
+
+      // Picking a period by hand takes over from playback
+      if (isPlaying) {
+        changePlaying(false)
+      }
+
+      // Toggle the period, dropping any selected days within it
+      if (isMultiple) {
+        const isInPeriod = (date: Date) => isWithin(date, period)
+        changeSelection(
+          multipleValue.some(isInPeriod)
+            ? multipleValue.filter((date) => !isInPeriod(date))
+            : sortDates([...multipleValue, period.start])
+        )
+        return
+      }
+
+      if (!isRange) {
+        changeSelection(period.start)
+        return
+      }
+
+      if (rangeAnchor === null) {
+        setRangeAnchor(period)
+        return
+      }
+
+      setRangeAnchor(null)
+      changeSelection(
+        period.start < rangeAnchor.start
+          ? { start: period.start, end: rangeAnchor.start }
+          : { start: rangeAnchor.start, end: period.start }
+      )
+    },
+    [
+      readOnly,
+      isPlaying,
+      changePlaying,
+      isMultiple,
+      multipleValue,
+      isRange,
+      rangeAnchor,
+      changeSelection,
+    ]
+  )
+
+  const clear = useCallback(() => {
+    if (disabled || readOnly) {
+      return
+    }
+
+    setRangeAnchor(null)
+    changeSelection(isMultiple ? NO_DATES : null)
+  }, [disabled, readOnly, isMultiple, changeSelection])
+
+  const getYearSelection = useCallback(
+    (year: number) => {
+      const periods = getYearPeriods(year)
+      const selected = periods.filter((period) =>
+        multipleValue.some((date) => isWithin(date, period))
+      )
+      return selected.length === 0
+        ? 'none'
+        : selected.length === periods.length
+          ? 'all'
+          : 'some'
+    },
+    [getYearPeriods, multipleValue]
+  )
+
+  // Fill in a year's unselected periods, or empty it when there are none
+  const toggleYear = useCallback(
+    (year: number) => {
+      const periods = getYearPeriods(year)
+      if (!isMultiple || disabled || readOnly || periods.length === 0) {
+        return
+      }
+
+      const isInYear = (date: Date) =>
+        periods.some((period) => isWithin(date, period))
+      const unselected = periods.filter(
+        (period) => !multipleValue.some((date) => isWithin(date, period))
+      )
+      changeSelection(
+        unselected.length === 0
+          ? multipleValue.filter((date) => !isInYear(date))
+          : sortDates([
+              ...multipleValue,
+              ...unselected.map((period) => period.start),
+            ])
+      )
+    },
+    [
+      getYearPeriods,
+      isMultiple,
+      disabled,
+      readOnly,
+      multipleValue,
+      changeSelection,
+    ]
+  )
+
+  // The period playback moves to from a day: `playStep` periods along the
+  // bar, counting only those that can be picked. Without a day, the first one
+  // that can. Null past the end of the bar.
+  const getNextPlaybackPeriod = useCallback(
+    (from: Date | null) => {
+      const isForward = sort === 'ascending'
+      const toPeriod = (date: Date) =>
+        getPeriod(
+          getPeriodStart(date, granularity, firstDayOfWeek, calendar),
+          granularity,
+          calendar
+        )
+      const step = (period: Period) =>
+        toPeriod(isForward ? addDays(period.end, 1) : addDays(period.start, -1))
+
+      let period = from
+        ? step(toPeriod(from))
+        : toPeriod(isForward ? startDate : endDate)
+      let remaining = from ? Math.max(1, Math.round(playStep)) : 1
+      while (isForward ? period.start <= endDate : period.end >= startDate) {
+        if (
+          !isPeriodDisabled(period, startDate, endDate) &&
+          !isPeriodUnavailable(period, granularity) &&
+          --remaining === 0
+        ) {
+          return period
+        }
+        period = step(period)
+      }
+      return null
+    },
+    [
+      sort,
+      granularity,
+      firstDayOfWeek,
+      calendar,
+      startDate,
+      endDate,
+      playStep,
+      isPeriodUnavailable,
+    ]
+  )
+
+  const play = useCallback(() => {
+    if (isPlaying || isRange || isMultiple || disabled || readOnly) {
+      return
+    }
+
+    // Start over rather than stop straight away at the end
+    if (selectedStart && !loop && !getNextPlaybackPeriod(selectedStart)) {
+      const first = getNextPlaybackPeriod(null)
+      if (first) {
+        changeSelection(first.start)
+      }
+    }
+    changePlaying(true)
+  }, [
+    isPlaying,
+    isRange,
+    isMultiple,
+    disabled,
+    readOnly,
+    selectedStart,
+    loop,
+    getNextPlaybackPeriod,
+    changeSelection,
+    changePlaying,
+  ])
+
+  const pause = useCallback(() => {
+    if (isPlaying) {
+      changePlaying(false)
+    }
+  }, [isPlaying, changePlaying])
+
+  // Move on a step, panning a zoomed-in bar to keep the selection in view.
+  // Kept in a ref so that renders between steps, e.g. from hovering, don't
+  // restart the timer.
+  const playbackStepRef = useRef(ignore)
+  useLayoutEffect(() => {
+    playbackStepRef.current = () => {
+      const next =
+        getNextPlaybackPeriod(selectedStart) ??
+        (loop ? getNextPlaybackPeriod(null) : null)
+      if (!next) {
+        changePlaying(false)
+        return
+      }
+
+      changeSelection(next.start)
+      const ratio = monthIndexToRatio(layout, calendar.toMonthIndex(next.start))
+      if (ratio < view.start || ratio > view.end) {
+        changeView({ start: ratio - viewSize / 2, end: ratio + viewSize / 2 })
+      }
+    }
+  })
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return
+    }
+
+    // Stepped on an interval rather than on each new value, so playback goes
+    // on when a controlled parent holds the value back
+    const interval = setInterval(() => playbackStepRef.current(), playInterval)
+    return () => clearInterval(interval)
+  }, [isPlaying, playInterval])
+
+  // The selection's place along the bar while playing, centred on its period
+  const playheadPosition = useMemo(() => {
+    if (!isPlaying || !selectedStart) {
+      return null
+    }
+
+    const period = getPeriod(selectedStart, granularity, calendar)
+    const ratio =
+      (dateToRatio(layout, period.start, 0) +
+        dateToRatio(layout, period.end, 1)) /
+      2
+    return ratio >= view.start && ratio <= view.end
+      ? ((ratio - view.start) / viewSize) * 100
+      : null
+  }, [isPlaying, selectedStart, granularity, calendar, layout, view, viewSize])
+
+  const focus = useCallback(() => {
+    // Elements only type `focus` once known to be HTML or SVG
+    const bar = barNode as HTMLElement | null
+    bar?.focus()
+  }, [barNode])
+
+  // Pick a month from the bar: commit the period it belongs to, or drill into
+  // it when weeks or days are being picked
+  const commitMonth = useCallback(
+    (monthIndex: number) => {
+      if (disabledMonths?.has(monthIndex)) {
+        return
+      }
+
+      if (canDrill) {
+        setDrillMonth(monthIndex)
+        setPopupIndex(null)
+        return
+      }
+
+      commitPeriod(
+        getPeriod(
+          getPeriodStart(
+            calendar.fromMonthIndex(monthIndex),
+            barGranularity,
+            firstDayOfWeek,
+            calendar
+          ),
+          barGranularity,
+          calendar
+        )
+      )
+    },
+    [
+      disabledMonths,
+      canDrill,
+      commitPeriod,
+      barGranularity,
+      firstDayOfWeek,
+      calendar,
+    ]
+  )
+
+  const cancelHoverFrame = useCallback(() => {
+    pendingHoverRef.current = null
+    if (hoverFrameRef.current !== null) {
+      cancelAnimationFrame(hoverFrameRef.current)
+      hoverFrameRef.current = null
+    }
+  }, [])
+
+  const closePopup = useCallback(() => {
+    cancelHoverFrame()
+    setHoverYear(null)
+    setDrillMonth(null)
+    setPopupIndex(null)
+  }, [cancelHoverFrame])
+
+  const cancelCloseTimeout = useCallback(() => {
+    if (closeTimeoutRef.current) {
+      clearTimeout(closeTimeoutRef.current)
+      closeTimeoutRef.current = null
+    }
+  }, [])
+
+  const cancelMomentum = useCallback(() => {
+    if (momentumFrameRef.current !== null) {
+      cancelAnimationFrame(momentumFrameRef.current)
+      momentumFrameRef.current = null
+    }
+  }, [])
+
+  // Measured again when the pointer enters the bar, and dropped whenever the
+  // bar resizes or the page scrolls or resizes
+  const getBarRect = useCallback(
+    (bar: Element) => (barRectRef.current ??= bar.getBoundingClientRect()),
+    []
+  )
+
+  useEffect(() => {
+    barRectRef.current = null
+    if (!barNode) {
+      return
+    }
+
+    const invalidate = () => {
+      barRectRef.current = null
+    }
+    window.addEventListener('scroll', invalidate, {
+      capture: true,
+      passive: true,
+    })
+    window.addEventListener('resize', invalidate)
+    const observer =
+      typeof ResizeObserver === 'undefined'
+        ? null
+        : new ResizeObserver(invalidate)
+    observer?.observe(barNode)
+    return () => {
+      window.removeEventListener('scroll', invalidate, { capture: true })
+      window.removeEventListener('resize', invalidate)
+      observer?.disconnect()
+    }
+  }, [barNode])
+
+  // Pointer position along the bar, 0 at its start and 1 at its end
+  const getPointerOffset = useCallback(
+    (e: { clientX: number; clientY: number }, rect: DOMRect) =>
+      orientation === 'horizontal'
+        ? isMirrored
+          ? (rect.right - e.clientX) / rect.width
+          : (e.clientX - rect.left) / rect.width
+        : (e.clientY - rect.top) / rect.height,
+    [orientation, isMirrored]
+  )
+
+  const getPointerRatio = useCallback(
+    (e: React.PointerEvent<Element>, rect: DOMRect) =>
+      Math.max(0, Math.min(1, getPointerOffset(e, rect))),
+    [getPointerOffset]
+  )
+
+  // Preview a month, placing the popup at a 0-1 position along the bar
+  const hoverMonthAt = useCallback(
+    (monthIndex: number, ratio: number, rect: DOMRect) => {
+      const year = calendar.getYear(monthIndex)
+      setHoverYear(year)
+      setHoverMonth(monthIndex - calendar.getYearStart(year))
+
+      const next =
+        orientation === 'horizontal'
+          ? { x: ratio * rect.width, y: 0 }
+          : { x: 0, y: ratio * rect.height }
+      setHoverPosition((current) =>
+        current.x === next.x && current.y === next.y ? current : next
+      )
+    },
+    [orientation, calendar]
+  )
+
+  // Move the preview to a position on the bar, following it with the popup
+  // Disabled months snap to the nearest one that isn't
+  const hoverAtRatio = useCallback(
+    (ratio: number, rect: DOMRect) => {
+      const monthIndex = positionToMonth(layout, ratio, view)
+      if (!disabledMonths?.has(monthIndex)) {
+        hoverMonthAt(monthIndex, ratio, rect)
+        return
+      }
+
+      const snapped = findEnabledMonth(
+        monthIndex,
+        minMonthIndex,
+        maxMonthIndex,
+        disabledMonths
+      )
+      if (snapped !== null) {
+        hoverMonthAt(snapped, monthToPosition(layout, snapped, view), rect)
+      }
+    },
+    [
+      layout,
+      view,
+      viewSize,
+      disabledMonths,
+      minMonthIndex,
+      maxMonthIndex,
+      hoverMonthAt,
+    ]
+  )
+
+  // Pointer moves can come far faster than frames, so each only keeps its
+  // position, and the preview follows the latest once per frame
+  const hoverAtRatioRef = useRef(hoverAtRatio)
+  useLayoutEffect(() => {
+    hoverAtRatioRef.current = hoverAtRatio
+  })
+
+  const flushHover = useCallback(() => {
+    const pending = pendingHoverRef.current
+    cancelHoverFrame()
+    if (pending) {
+      hoverAtRatioRef.current(pending.ratio, pending.rect)
+    }
+  }, [cancelHoverFrame])
+
+  const scheduleHover = useCallback(
+    (ratio: number, rect: DOMRect) => {
+      pendingHoverRef.current = { ratio, rect }
+      hoverFrameRef.current ??= requestAnimationFrame(flushHover)
+    },
+    [flushHover]
+  )
+
+  // Commit the month a scrub ended on, snapping the indicator to its centre
+  // and leaving it up briefly so the snap is visible
+  const commitScrub = useCallback(
+    (ratio: number, rect: DOMRect) => {
+      const monthIndex = findEnabledMonth(
+        Math.max(
+          minMonthIndex,
+          Math.min(maxMonthIndex, positionToMonth(layout, ratio, view))
+        ),
+        minMonthIndex,
+        maxMonthIndex,
+        disabledMonths
+      )
+      if (monthIndex === null) {
+        setIsScrubbing(false)
+        closePopup()
+        return
+      }
+
+      hoverMonthAt(monthIndex, monthToPosition(layout, monthIndex, view), rect)
+      commitMonth(monthIndex)
+
+      // Weeks and days are picked from the drilled-down popup instead
+      if (canDrill) {
+        setIsScrubbing(false)
+        return
+      }
+
+      closeTimeoutRef.current = setTimeout(() => {
+        setIsScrubbing(false)
+        closePopup()
+      }, SCRUB_SNAP_DURATION)
+    },
+    [
+      layout,
+      view,
+      viewSize,
+      minMonthIndex,
+      maxMonthIndex,
+      disabledMonths,
+      hoverMonthAt,
+      commitMonth,
+      canDrill,
+      closePopup,
+    ]
+  )
+
+  const handleBarPointerDown = useCallback(
+    (e: React.PointerEvent<Element>) => {
+      lastPointerTypeRef.current = e.pointerType
+      suppressClickRef.current = false
+      const rect = e.currentTarget.getBoundingClientRect()
+      barRectRef.current = rect
+
+      // Mice keep the hover popup, and drag to pan a zoomed-in bar; touch and
+      // pen scrub the bar
+      if (e.pointerType === 'mouse') {
+        // Let a click pick the month under it, even within a frame of moving
+        flushHover()
+        if (zoomable && viewMonths !== null && e.button === 0) {
+          panRef.current = {
+            rect,
+            origin: getPointerOffset(e, rect),
+            view,
+            moved: false,
+          }
+        }
+        return
+      }
+
+      // A second finger turns the scrub into a pinch
+      if (zoomable && e.pointerType === 'touch') {
+        const touches = touchesRef.current
+        touches.set(e.pointerId, getPointerOffset(e, rect))
+        if (pinchRef.current) {
+          return
+        }
+        if (touches.size === 2) {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          scrubRef.current = null
+          setIsScrubbing(false)
+          closePopup()
+          pinchRef.current = {
+            anchors: new Map(
+              [...touches].map(([id, offset]) => [
+                id,
+                view.start + offset * viewSize,
+              ])
+            ),
+          }
+          return
+        }
+      }
+
+      cancelCloseTimeout()
+      cancelMomentum()
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setDrillMonth(null)
+      setPopupIndex(null)
+
+      const ratio = getPointerRatio(e, rect)
+      scrubRef.current = {
+        rect,
+        samples: [{ ratio, time: e.timeStamp }],
+      }
+      setIsScrubbing(true)
+      setIsPopupHovered(false)
+      hoverAtRatio(ratio, rect)
+    },
+    [
+      zoomable,
+      viewMonths,
+      view,
+      viewSize,
+      closePopup,
+      cancelCloseTimeout,
+      cancelMomentum,
+      getPointerOffset,
+      getPointerRatio,
+      hoverAtRatio,
+      flushHover,
+    ]
+  )
+
+  const handleBarPointerMove = useCallback(
+    (e: React.PointerEvent<Element>) => {
+      // Keep the layout positions the fingers started on under them
+      const pinch = pinchRef.current
+      if (pinch) {
+        const touches = touchesRef.current
+        if (!touches.has(e.pointerId)) {
+          return
+        }
+        touches.set(
+          e.pointerId,
+          getPointerOffset(e, getBarRect(e.currentTarget))
+        )
+        const [[idA, a], [idB, b]] = [...touches]
+        const anchorA = pinch.anchors.get(idA)
+        const anchorB = pinch.anchors.get(idB)
+        if (anchorA === undefined || anchorB === undefined || a === b) {
+          return
+        }
+        const size = (anchorB - anchorA) / (b - a)
+        if (size > 0) {
+          changeView({
+            start: anchorA - a * size,
+            end: anchorA + (1 - a) * size,
+          })
+        }
+        return
+      }
+
+      const pan = panRef.current
+      if (pan) {
+        const offset = getPointerOffset(e, pan.rect)
+        const length =
+          orientation === 'horizontal' ? pan.rect.width : pan.rect.height
+        if (
+          pan.moved ||
+          Math.abs(offset - pan.origin) * length >= PAN_THRESHOLD
+        ) {
+          if (!pan.moved) {
+            pan.moved = true
+            e.currentTarget.setPointerCapture(e.pointerId)
+            setIsPanning(true)
+            closePopup()
+          }
+          const shift = (offset - pan.origin) * (pan.view.end - pan.view.start)
+          changeView({
+            start: pan.view.start - shift,
+            end: pan.view.end - shift,
+          })
+          return
+        }
+      }
+
+      const scrub = scrubRef.current
+
+      if (scrub) {
+        const ratio = getPointerRatio(e, scrub.rect)
+        scrub.samples = [
+          ...scrub.samples.filter(
+            (sample) => e.timeStamp - sample.time < VELOCITY_WINDOW
+          ),
+          { ratio, time: e.timeStamp },
+        ]
+        scheduleHover(ratio, scrub.rect)
+        return
+      }
+
+      if (e.pointerType !== 'mouse') {
+        return
+      }
+
+      // Cancel any pending close timeout when moving on bar
+      cancelCloseTimeout()
+      // Measure afresh on entering, as the bar may have moved since
+      if (!lastMouseRef.current) {
+        barRectRef.current = null
+      }
+      lastMouseRef.current = { clientX: e.clientX, clientY: e.clientY }
+
+      // Don't update position while interacting with the popup
+      if (isPopupHovered || drillMonth !== null) {
+        return
+      }
+
+      const rect = getBarRect(e.currentTarget)
+      scheduleHover(getPointerRatio(e, rect), rect)
+    },
+    [
+      orientation,
+      changeView,
+      closePopup,
+      getBarRect,
+      getPointerOffset,
+      getPointerRatio,
+      scheduleHover,
+      cancelCloseTimeout,
+      isPopupHovered,
+      drillMonth,
+    ]
+  )
+
+  // End a pan or pinch, keeping the click that ends a pan from selecting
+  const endViewGesture = useCallback((pointerId: number) => {
+    touchesRef.current.delete(pointerId)
+    if (pinchRef.current) {
+      pinchRef.current = null
+      return true
+    }
+
+    const pan = panRef.current
+    panRef.current = null
+    if (pan?.moved) {
+      setIsPanning(false)
+      suppressClickRef.current = true
+      return true
+    }
+    return false
+  }, [])
+
+  const handleBarPointerUp = useCallback(
+    (e: React.PointerEvent<Element>) => {
+      if (endViewGesture(e.pointerId)) {
+        return
+      }
+
+      const scrub = scrubRef.current
+      if (!scrub) {
+        return
+      }
+      scrubRef.current = null
+      cancelHoverFrame()
+
+      const { rect, samples } = scrub
+      const ratio = getPointerRatio(e, rect)
+      const first = samples.find(
+        (sample) => e.timeStamp - sample.time < VELOCITY_WINDOW
+      )
+      let velocity =
+        first && e.timeStamp > first.time
+          ? (ratio - first.ratio) / (e.timeStamp - first.time)
+          : 0
+
+      if (Math.abs(velocity) < MIN_MOMENTUM_VELOCITY) {
+        commitScrub(ratio, rect)
+        return
+      }
+
+      // Fling: keep gliding along the bar, decelerating until it settles
+      let current = ratio
+      let lastTime = performance.now()
+      const glide = (now: number) => {
+        const dt = now - lastTime
+        lastTime = now
+        current = Math.max(0, Math.min(1, current + velocity * dt))
+        velocity *= Math.pow(MOMENTUM_FRICTION, dt / 16)
+
+        if (
+          current === 0 ||
+          current === 1 ||
+          Math.abs(velocity) < MIN_MOMENTUM_VELOCITY
+        ) {
+          momentumFrameRef.current = null
+          commitScrub(current, rect)
+          return
+        }
+
+        hoverAtRatio(current, rect)
+        momentumFrameRef.current = requestAnimationFrame(glide)
+      }
+      momentumFrameRef.current = requestAnimationFrame(glide)
+    },
+    [
+      endViewGesture,
+      cancelHoverFrame,
+      getPointerRatio,
+      commitScrub,
+      hoverAtRatio,
+    ]
+  )
+
+  const handleBarPointerCancel = useCallback(
+    (e: React.PointerEvent<Element>) => {
+      endViewGesture(e.pointerId)
+      suppressClickRef.current = false
+      scrubRef.current = null
+      setIsScrubbing(false)
+      closePopup()
+    },
+    [endViewGesture, closePopup]
+  )
+
+  const handleBarPointerLeave = useCallback(
+    (e: React.PointerEvent<Element>) => {
+      if (e.pointerType !== 'mouse') {
+        return
+      }
+
+      lastMouseRef.current = null
+      cancelHoverFrame()
+      // Delay closing to give time to move to the popup
+      closeTimeoutRef.current = setTimeout(() => {
+        if (!isPopupHovered) {
+          closePopup()
+        }
+      }, 150)
+    },
+    [isPopupHovered, cancelHoverFrame, closePopup]
+  )
+
+  // Years are picked straight from the bar, as there is nothing to refine
+  const handleBarClick = useCallback(() => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false
+      return
+    }
+
+    if (
+      granularity === 'year' &&
+      lastPointerTypeRef.current === 'mouse' &&
+      hoverMonthIndex !== null
+    ) {
+      commitMonth(hoverMonthIndex)
+    }
+  }, [granularity, hoverMonthIndex, commitMonth])
+
+  const handlePopupMouseEnter = useCallback(() => {
+    // Cancel any pending close timeout
+    cancelCloseTimeout()
+    setIsPopupHovered(true)
+  }, [cancelCloseTimeout])
+
+  const handlePopupMouseLeave = useCallback(() => {
+    setIsPopupHovered(false)
+    closePopup()
+  }, [closePopup])
+
+  // Open the popup for a month without a pointer, placing it over the month's
+  // position on the bar
+  const previewMonth = useCallback(
+    (monthIndex: number, direction: -1 | 0 | 1 = 0) => {
+      const clamped = findEnabledMonth(
+        Math.max(minMonthIndex, Math.min(maxMonthIndex, monthIndex)),
+        minMonthIndex,
+        maxMonthIndex,
+        disabledMonths,
+        direction
+      )
+
+      const rect = barNode?.getBoundingClientRect()
+      if (clamped === null || !rect) {
+        return
+      }
+
+      // Pan a zoomed-in bar to bring the month into view
+      const ratio = monthIndexToRatio(layout, clamped)
+      const shown =
+        ratio < view.start || ratio > view.end
+          ? changeView({
+              start: ratio - viewSize / 2,
+              end: ratio + viewSize / 2,
+            })
+          : view
+      hoverMonthAt(
+        clamped,
+        (ratio - shown.start) / (shown.end - shown.start),
+        rect
+      )
+    },
+    [
+      barNode,
+      minMonthIndex,
+      maxMonthIndex,
+      disabledMonths,
+      layout,
+      view,
+      viewSize,
+      changeView,
+      hoverMonthAt,
+    ]
+  )
+
+  const handleItemSelect = useCallback(
+    (index: number) => {
+      const item = popupItems[index]
+      if (item.disabled) {
+        return
+      }
+
+      if (popupLevel === 'month') {
+        commitMonth(calendar.toMonthIndex(item.start))
+      } else {
+        commitPeriod(item)
+      }
+    },
+    [popupItems, popupLevel, commitMonth, commitPeriod, calendar]
+  )
+
+  const handleDrillBack = useCallback(() => {
+    setDrillMonth(null)
+    setPopupIndex(null)
+  }, [])
+
+  // Move the popup highlight while drilled down, skipping disabled ticks
+  const movePopupIndex = useCallback(
+    (from: number, step: number) => {
+      for (
+        let index = from + step;
+        index >= 0 && index < popupItems.length;
+        index += step
+      ) {
+        if (!popupItems[index].disabled) {
+          setPopupIndex(index)
+          return
+        }
+      }
+    },
+    [popupItems]
+  )
+
+  const handleDrilledKeyDown = useCallback(
+    (e: React.KeyboardEvent<Element>) => {
+      // Popup ticks run against time when sorted newest first, like the bar
+      const forward = sort === 'descending' ? -1 : 1
+      // Start from the highlighted tick, else the selected one, else the first
+      const selectedIndex = popupItems.findIndex((item) =>
+        selectedStarts.some((start) => isWithin(start, item))
+      )
+      const current =
+        popupIndex ??
+        (selectedIndex >= 0
+          ? selectedIndex
+          : popupItems.findIndex((item) => !item.disabled))
+
+      switch (getBarKey(e.key, isMirrored)) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+          if (popupIndex === null) {
+            setPopupIndex(current)
+          } else {
+            movePopupIndex(current, forward)
+          }
+          break
+        case 'ArrowLeft':
+        case 'ArrowUp':
+          if (popupIndex === null) {
+            setPopupIndex(current)
+          } else {
+            movePopupIndex(current, -forward)
+          }
+          break
+        case 'Home':
+          movePopupIndex(-1, 1)
+          break
+        case 'End':
+          movePopupIndex(popupItems.length, -1)
+          break
+        case 'Enter':
+          if (popupIndex !== null && !popupItems[popupIndex].disabled) {
+            commitPeriod(popupItems[popupIndex])
+          } else {
+            setPopupIndex(current)
+          }
+          break
+        case 'Escape':
+          handleDrillBack()
+          break
+        default:
+          return
+      }
+
+      e.preventDefault()
+    },
+    [
+      sort,
+      isMirrored,
+      selectedStarts,
+      popupIndex,
+      popupItems,
+      movePopupIndex,
+      commitPeriod,
+      handleDrillBack,
+    ]
+  )
+
+  const handleBarKeyDown = useCallback(
+    (e: React.KeyboardEvent<Element>) => {
+      if (drillMonth !== null) {
+        handleDrilledKeyDown(e)
+        return
+      }
+
+      // Towards the end of the bar is back in time when sorted newest first
+      const forward = sort === 'descending' ? -1 : 1
+      const backward = sort === 'descending' ? 1 : -1
+      const stepBy = (steps: number) =>
+        granularity === 'year'
+          ? addYears(calendar, activeMonthIndex, steps)
+          : activeMonthIndex + steps
+
+      switch (getBarKey(e.key, isMirrored)) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+          previewMonth(stepBy(forward), forward)
+          break
+        case 'ArrowLeft':
+        case 'ArrowUp':
+          previewMonth(stepBy(backward), backward)
+          break
+        case 'PageUp':
+          previewMonth(addYears(calendar, activeMonthIndex, 1), 1)
+          break
+        case 'PageDown':
+          previewMonth(addYears(calendar, activeMonthIndex, -1), -1)
+          break
+        case 'Home':
+          previewMonth(minMonthIndex, 1)
+          break
+        case 'End':
+          previewMonth(maxMonthIndex, -1)
+          break
+        case 'Enter':
+          if (isMultiple && e.shiftKey) {
+            toggleYear(calendar.getYear(activeMonthIndex))
+          } else if (hoverMonthIndex !== null) {
+            commitMonth(hoverMonthIndex)
+          } else {
+            previewMonth(activeMonthIndex)
+          }
+          break
+        case 'Escape':
+          if (hoverYear === null && rangeAnchor === null) {
+            return
+          }
+          closePopup()
+          setRangeAnchor(null)
+          break
+        case 'Delete':
+        case 'Backspace':
+          if (readOnly || (!hasSelection && rangeAnchor === null)) {
+            return
+          }
+          clear()
+          break
+        case '+':
+        case '=':
+        case '-': {
+          if (!zoomable) {
+            return
+          }
+          // Zoom around the active month, keeping the popup over it
+          const ratio = monthIndexToRatio(layout, activeMonthIndex)
+          const next = zoomAt(
+            e.key === '-' ? KEY_ZOOM_FACTOR : 1 / KEY_ZOOM_FACTOR,
+            Math.max(0, Math.min(1, (ratio - view.start) / viewSize))
+          )
+          const rect = barNode?.getBoundingClientRect()
+          if (hoverMonthIndex !== null && rect) {
+            hoverMonthAt(
+              hoverMonthIndex,
+              (ratio - next.start) / (next.end - next.start),
+              rect
+            )
+          }
+          break
+        }
+        default:
+          return
+      }
+
+      e.preventDefault()
+    },
+    [
+      drillMonth,
+      handleDrilledKeyDown,
+      barNode,
+      zoomable,
+      layout,
+      view,
+      viewSize,
+      zoomAt,
+      hoverMonthAt,
+      granularity,
+      closePopup,
+      sort,
+      isMirrored,
+      calendar,
+      previewMonth,
+      activeMonthIndex,
+      minMonthIndex,
+      maxMonthIndex,
+      hoverYear,
+      hoverMonthIndex,
+      rangeAnchor,
+      commitMonth,
+      readOnly,
+      hasSelection,
+      isMultiple,
+      toggleYear,
+      clear,
+    ]
+  )
+
+  const handleBarBlur = useCallback(
+    (e: React.FocusEvent<Element>) => {
+      const target = e.relatedTarget as Node | null
+      const isLeaving =
+        !containerNode?.contains(target) && !popupNode?.contains(target)
+      if (!isPopupHovered && isLeaving) {
+        closePopup()
+      }
+      if (isLeaving) {
+        onBlur?.()
+      }
+    },
+    [isPopupHovered, containerNode, popupNode, closePopup, onBlur]
+  )
+
+  // Go back to the default selection when the input's form is reset, as
+  // native inputs do. Controlled values are left to their owner.
+  useEffect(() => {
+    const form = inputNode?.form
+    if (!form || isControlled) {
+      return
+    }
+
+    const handleReset = () => {
+      setRangeAnchor(null)
+      setInternalSelection(defaultSelection)
+    }
+    form.addEventListener('reset', handleReset)
+    return () => form.removeEventListener('reset', handleReset)
+  }, [inputNode, isControlled, defaultSelection])
+
+  // Close month selector when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      // The path, unlike the target, still reaches into a shadow root the
+      // selector is rendered in
+      const path = e.composedPath()
+      if (
+        containerNode &&
+        !path.includes(containerNode) &&
+        !(popupNode && path.includes(popupNode))
+      ) {
+        closePopup()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [containerNode, popupNode, closePopup])
+
+  // Keep previewing the month under a resting mouse while the page scrolls
+  // the bar beneath it
+  const isPreviewing = hoverYear !== null
+  useEffect(() => {
+    if (!isPreviewing || !barNode) {
+      return
+    }
+
+    const handleScroll = () => {
+      const mouse = lastMouseRef.current
+      barRectRef.current = null
+      const rect = getBarRect(barNode)
+      if (
+        !mouse ||
+        isPopupHovered ||
+        drillMonth !== null ||
+        mouse.clientX < rect.left ||
+        mouse.clientX > rect.right ||
+        mouse.clientY < rect.top ||
+        mouse.clientY > rect.bottom
+      ) {
+        return
+      }
+      hoverAtRatio(
+        Math.max(0, Math.min(1, getPointerOffset(mouse, rect))),
+        rect
+      )
+    }
+
+    // Captured, to hear scrolling in any container around the bar
+    window.addEventListener('scroll', handleScroll, {
+      capture: true,
+      passive: true,
+    })
+    return () =>
+      window.removeEventListener('scroll', handleScroll, { capture: true })
+  }, [
+    isPreviewing,
+    barNode,
+    isPopupHovered,
+    drillMonth,
+    hoverAtRatio,
+    getBarRect,
+    getPointerOffset,
+  ])
+
+  // Zoom with the wheel or a trackpad pinch, and pan with sideways scrolling.
+  // Added by hand, as React's wheel listeners are passive and can't stop the
+  // page from scrolling.
+  useEffect(() => {
+    const bar = barNode
+    if (!zoomable || !bar || disabled) {
+      return
+    }
+
+    const handleWheel = (e: WheelEvent) => {
+      const isPan = e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)
+      // Let the page scroll when there is nothing further to zoom out to
+      if (viewMonths === null && (isPan || e.deltaY > 0)) {
+        return
+      }
+
+      e.preventDefault()
+      closePopup()
+      const rect = getBarRect(bar)
+      const lineHeight = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : 1
+
+      if (isPan) {
+        // Scrolling right moves towards the start of a mirrored bar
+        const delta =
+          ((isMirrored ? -e.deltaX : e.deltaX) || e.deltaY) * lineHeight
+        const length = orientation === 'horizontal' ? rect.width : rect.height
+        const shift = (delta / length) * viewSize
+        changeView({ start: view.start + shift, end: view.end + shift })
+        return
+      }
+
+      const speed = e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED
+      zoomAt(
+        Math.exp(e.deltaY * lineHeight * speed),
+        Math.max(0, Math.min(1, getPointerOffset(e, rect)))
+      )
+    }
+
+    // Cast as plain Elements only type their listeners as generic events
+    const listener = handleWheel as EventListener
+    bar.addEventListener('wheel', listener, { passive: false })
+    return () => bar.removeEventListener('wheel', listener)
+  }, [
+    barNode,
+    zoomable,
+    disabled,
+    viewMonths,
+    view,
+    viewSize,
+    orientation,
+    isMirrored,
+    closePopup,
+    changeView,
+    zoomAt,
+    getBarRect,
+    getPointerOffset,
+  ])
+
+  // Cleanup timeout and animation frames on unmount
+  useEffect(() => {
+    return () => {
+      cancelCloseTimeout()
+      cancelMomentum()
+      cancelHoverFrame()
+    }
+  }, [cancelCloseTimeout, cancelMomentum, cancelHoverFrame])
+
+  // Multiple selections are listed while short, and counted beyond that.
+  // Kept between renders, which come on every hover frame.
+  const selectionLabel = useMemo(() => {
+    const formatValue = (date: Date) =>
+      formatPeriod(
+        getPeriodStart(date, granularity, firstDayOfWeek, calendar),
+        granularity,
+        locale,
+        calendar
+      )
+    return rangeValue
+      ? `${formatValue(rangeValue.start)} – ${formatValue(rangeValue.end)}`
+      : singleValue
+        ? formatValue(singleValue)
+        : multipleValue.length > MAX_LISTED_SELECTIONS
+          ? `${getNumberFormat(locale).format(multipleValue.length)} selected`
+          : multipleValue.map(formatValue).join(', ')
+  }, [
+    rangeValue,
+    singleValue,
+    multipleValue,
+    granularity,
+    firstDayOfWeek,
+    calendar,
+    locale,
+  ])
+
+  const popupTitle = useMemo(() => {
+    if (drillMonth !== null) {
+      return formatPeriod(
+        calendar.fromMonthIndex(drillMonth),
+        'month',
+        locale,
+        calendar
+      )
+    }
+    return hoverYear !== null
+      ? formatPeriod(
+          calendar.fromMonthIndex(calendar.getYearStart(hoverYear)),
+          'year',
+          locale,
+          calendar
+        )
+      : ''
+  }, [drillMonth, hoverYear, calendar, locale])
+
+  // Years starting inside the window, and the years at either end of it
+  const visibleYears = useMemo(
+    () => getVisibleYears(layout, view),
+    [layout, view]
+  )
+  const [firstYear, lastYear] = [0, 1 - 1e-9].map((position) =>
+    calendar.getYear(positionToMonth(layout, position, view))
+  )
+
+  return {
+    mode: options.mode ?? 'single',
+    orientation,
+    sort,
+    locale,
+    dir: resolvedDir,
+    calendar,
+    timeZone,
+    events,
+    layout,
+    view,
+    viewMonths,
+    minMonthIndex,
+    maxMonthIndex,
+    visibleYears,
+    firstYear,
+    lastYear,
+    toViewPercent,
+    densityCells,
+    maxCount,
+    eventMarkers,
+    rangeHighlight,
+    selectionHighlights,
+    disabledMonths,
+    gaps,
+    currentPosition,
+    isPlaying,
+    playInterval,
+    playheadPosition,
+    disabled,
+    readOnly,
+    value: singleValue,
+    range: rangeValue,
+    values: multipleValue,
+    selectedStart,
+    selectedStarts,
+    selectedYear,
+    displayedRange,
+    selectionLabel,
+    hoverYear,
+    hoverMonth,
+    intentMonth,
+    monthPreview,
+    hoverPosition,
+    getPopupAnchor: () => {
+      if (hoverYear === null || !barNode) {
+        return null
+      }
+      const rect = getBarRect(barNode)
+      if (orientation === 'vertical') {
+        const y = rect.top + hoverPosition.y
+        return { left: rect.left, top: y, right: rect.right, bottom: y }
+      }
+      const x = isMirrored
+        ? rect.right - hoverPosition.x
+        : rect.left + hoverPosition.x
+      return { left: x, top: rect.top, right: x, bottom: rect.bottom }
+    },
+    isScrubbing,
+    isPanning,
+    canPan: zoomable && viewMonths !== null,
+    isPopupOpen: hoverYear !== null && !isScrubbing && !isPanning,
+    popupTitle,
+    popupLevel,
+    popupItems,
+    popupMaxCount,
+    highlightedIndex,
+    drillMonth,
+    activeMonthIndex,
+    activeLabel,
+    activeValueText,
+    commitMonth,
+    commitPeriod,
+    previewMonth,
+    closePopup,
+    changeView,
+    zoomAt,
+    selectItem: handleItemSelect,
+    highlightItem: setPopupIndex,
+    drillBack: handleDrillBack,
+    clear,
+    getYearSelection,
+    toggleYear,
+    focus,
+    play,
+    pause,
+    getRootProps: () => ({
+      ref: setContainerNode,
+      role: 'group',
+      'aria-label': 'Date selector',
+      dir: resolvedDir,
+    }),
+    getBarProps: () => ({
+      ref: setBarNode,
+      role: 'slider',
+      tabIndex: disabled ? -1 : 0,
+      'aria-label': 'Month',
+      'aria-orientation': orientation,
+      'aria-valuemin': minMonthIndex,
+      'aria-valuemax': maxMonthIndex,
+      'aria-valuenow': activeMonthIndex,
+      'aria-valuetext': activeValueText,
+      'aria-disabled': disabled,
+      'aria-readonly': readOnly,
+      style: BAR_STYLE,
+      ...(disabled
+        ? DISABLED_BAR_HANDLERS
+        : {
+            onPointerDown: handleBarPointerDown,
+            onPointerMove: handleBarPointerMove,
+            onPointerUp: handleBarPointerUp,
+            onPointerCancel: handleBarPointerCancel,
+            onPointerLeave: handleBarPointerLeave,
+            onClick: handleBarClick,
+            onKeyDown: handleBarKeyDown,
+            onBlur: handleBarBlur,
+          }),
+    }),
+    getPopupProps: () => ({
+      ref: setPopupNode,
+      onMouseEnter: handlePopupMouseEnter,
+      onMouseLeave: handlePopupMouseLeave,
+      // Taps inside the popup must not start a scrub on the bar behind it
+      onPointerDown: (e) => e.stopPropagation(),
+    }),
+    getInputProps: () => ({
+      ref: setInputNode,
+      name,
+      value: serializeSelection(selection, withDay),
+      required,
+      disabled,
+      tabIndex: -1,
+      'aria-hidden': true,
+      // The value only changes through the selector
+      onChange: ignore,
+      onFocus: focus,
+    }),
+  }
+}
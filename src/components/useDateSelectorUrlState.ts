@@ -0,0 +1,355 @@
+import {
+  useState,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from 'react'
+import { parseDateString, toDateString, toMonthIndex } from './timeline'
+import { toZonedDay, type TimeZone } from './timeZone'
+import type { DateStringRange } from './useDateSelector'
+
+/**
+ * Where the query is read from and written to, e.g. a router's search
+ * params. React Router's `useSearchParams()` fits as it is.
+ */
+export interface DateSelectorUrlAdapter {
+  /** The current query, changing as the page navigates */
+  searchParams: URLSearchParams
+  /** Navigate to a query, adding a history entry unless `replace` is set */
+  setSearchParams: (
+    params: URLSearchParams,
+    options: { replace: boolean }
+  ) => void
+}
+
+interface DateSelectorUrlStateOptionsBase {
+  /** The selector's `startDate`; earlier months in the URL are ignored */
+  startDate: Date
+  /** The selector's `endDate`; later months in the URL are ignored */
+  endDate?: Date
+  /** The selector's `timeZone`, which `startDate` and `endDate` are read in */
+  timeZone?: TimeZone
+  /**
+   * How periods are written (default: 'month'): 'month' as 'YYYY-MM', and
+   * 'day' as 'YYYY-MM-DD', for weeks, days, or calendars whose months don't
+   * start on the 1st
+   */
+  format?: 'month' | 'day'
+  /** Replace the current history entry instead of adding one (default: false) */
+  replace?: boolean
+  /**
+   * Time after the last change before the URL is written, in ms (default:
+   * 300), so holding an arrow key or playing the bar makes one entry
+   */
+  debounce?: number
+  /** Read and write a router's query instead of `window.location` */
+  adapter?: DateSelectorUrlAdapter
+}
+
+export interface SingleDateSelectorUrlStateOptions extends DateSelectorUrlStateOptionsBase {
+  mode?: 'single'
+  /** Query parameter holding the selected period (default: 'month') */
+  key?: string
+}
+
+export interface RangeDateSelectorUrlStateOptions extends DateSelectorUrlStateOptionsBase {
+  mode: 'range'
+  /** Query parameter holding the first period (default: 'from') */
+  startKey?: string
+  /** Query parameter holding the last period (default: 'to') */
+  endKey?: string
+}
+
+export type DateSelectorUrlStateOptions =
+  SingleDateSelectorUrlStateOptions | RangeDateSelectorUrlStateOptions
+
+export interface DateSelectorUrlStateResult<
+  T extends string | DateStringRange,
+> {
+  /** The selection in the URL, or the one about to be written to it */
+  value: T | null
+  /** Select a period, writing it to the URL once changes settle */
+  setValue: (value: T | null) => void
+  /** Props for `DateSelector`: its range of dates, value and changes */
+  getSelectorProps: () => {
+    startDate: Date
+    endDate?: Date
+    timeZone?: TimeZone
+    valueType: 'string'
+    value: T | null
+    onChange: (value: T | null) => void
+  } & (T extends DateStringRange ? { mode: 'range' } : { mode?: 'single' })
+}
+
+/** Each key's period as written in the URL, or null for no selection */
+type UrlValues = string[] | null
+
+const searchListeners = new Set<() => void>()
+
+function subscribeToLocation(listener: () => void) {
+  searchListeners.add(listener)
+  window.addEventListener('popstate', listener)
+  return () => {
+    searchListeners.delete(listener)
+    window.removeEventListener('popstate', listener)
+  }
+}
+
+function getLocationSearch() {
+  return window.location.search
+}
+
+function getServerSearch() {
+  return ''
+}
+
+/** The page's query through `window.history`, kept current on back and forward */
+function useWindowSearchParams(): DateSelectorUrlAdapter {
+  const search = useSyncExternalStore(
+    subscribeToLocation,
+    getLocationSearch,
+    getServerSearch
+  )
+  const searchParams = useMemo(() => new URLSearchParams(search), [search])
+  return {
+    searchParams,
+    setSearchParams: (params, { replace }) => {
+      const query = params.toString()
+      const { pathname, hash } = window.location
+      const url = `${pathname}${query ? `?${query}` : ''}${hash}`
+      if (replace) {
+        window.history.replaceState(window.history.state, '', url)
+      } else {
+        window.history.pushState(window.history.state, '', url)
+      }
+      searchListeners.forEach((listener) => listener())
+    },
+  }
+}
+
+/**
+ * The periods under the keys, or null unless each is a date within the
+ * bounds and they run in order
+ */
+function readUrlValues(
+  params: URLSearchParams,
+  keys: string[],
+  bounds: { start: number; end: number },
+  withDay: boolean
+): UrlValues {
+  const days: Date[] = []
+  for (const key of keys) {
+    const param = params.get(key)
+    const day = param ? parseDateString(param) : null
+    if (!day) {
+      return null
+    }
+    const monthIndex = toMonthIndex(day.getFullYear(), day.getMonth())
+    if (monthIndex < bounds.start || monthIndex > bounds.end) {
+      return null
+    }
+    if (days.length > 0 && day < days[days.length - 1]) {
+      return null
+    }
+    days.push(day)
+  }
+  return days.map((day) => toDateString(day, withDay))
+}
+
+/** A 'YYYY-MM' or 'YYYY-MM-DD' string in the format, kept as is if malformed */
+function formatValue(value: string, withDay: boolean) {
+  const day = parseDateString(value)
+  return day ? toDateString(day, withDay) : value
+}
+
+/**
+ * Keep a `DateSelector`'s selection in the URL, as `?month=2019-06` or
+ * `?from=2019-03&to=2019-06`, so a view can be shared and the back button
+ * returns to the previous one. Other parameters are left as they are.
+ * Parameters that are malformed or outside `startDate` to `endDate` select
+ * nothing.
+ */
+export function useDateSelectorUrlState(
+  options: SingleDateSelectorUrlStateOptions
+): DateSelectorUrlStateResult<string>
+export function useDateSelectorUrlState(
+  options: RangeDateSelectorUrlStateOptions
+): DateSelectorUrlStateResult<DateStringRange>
+export function useDateSelectorUrlState(
+  options: DateSelectorUrlStateOptions
+):
+  | DateSelectorUrlStateResult<string>
+  | DateSelectorUrlStateResult<DateStringRange>
+export function useDateSelectorUrlState(
+  options: DateSelectorUrlStateOptions
+):
+  | DateSelectorUrlStateResult<string>
+  | DateSelectorUrlStateResult<DateStringRange> {
+  const {
+    startDate,
+    endDate,
+    timeZone = 'local',
+    format = 'month',
+    replace = false,
+    debounce = 300,
+  } = options
+  const isRange = options.mode === 'range'
+  const withDay = format === 'day'
+  const [firstKey, lastKey] =
+    options.mode === 'range'
+      ? [options.startKey ?? 'from', options.endKey ?? 'to']
+      : [options.key ?? 'month', null]
+  const keys = useMemo(
+    () => (lastKey === null ? [firstKey] : [firstKey, lastKey]),
+    [firstKey, lastKey]
+  )
+
+  const windowAdapter = useWindowSearchParams()
+  const adapter = options.adapter ?? windowAdapter
+  const params = adapter.searchParams
+  const search = params.toString()
+
+  const start = toZonedDay(startDate, timeZone)
+  const end = toZonedDay(endDate ?? new Date(), timeZone)
+  const startMonth = toMonthIndex(start.getFullYear(), start.getMonth())
+  const endMonth = toMonthIndex(end.getFullYear(), end.getMonth())
+
+  const urlValues = useMemo(
+    () =>
+      readUrlValues(
+        new URLSearchParams(search),
+        keys,
+        { start: startMonth, end: endMonth },
+        withDay
+      ),
+    [search, keys, startMonth, endMonth, withDay]
+  )
+
+  // A change not yet written, shown in place of the URL until it is
+  const [pendingValues, setPendingValues] = useState<UrlValues | undefined>()
+  const writeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const cancelWrite = useCallback(() => {
+    if (writeTimeoutRef.current) {
+      clearTimeout(writeTimeoutRef.current)
+      writeTimeoutRef.current = null
+    }
+  }, [])
+
+  // Once this hook's parameters change, by its own write or by navigating
+  // back or forward, the URL holds the selection again. Changes to other
+  // parameters leave a pending write to go ahead.
+  const ownParams = JSON.stringify(keys.map((key) => params.get(key)))
+  useEffect(() => {
+    cancelWrite()
+    setPendingValues(undefined)
+  }, [ownParams, cancelWrite])
+
+  // Merged into the query as it is when written, not as it was when picked
+  const write = (values: UrlValues) => {
+    const current = searchRef.current
+    const next = new URLSearchParams(current)
+    keys.forEach((key, index) => {
+      if (values) {
+        next.set(key, values[index])
+      } else {
+        next.delete(key)
+      }
+    })
+    if (next.toString() === current) {
+      setPendingValues(undefined)
+      return
+    }
+    adapter.setSearchParams(next, { replace })
+  }
+  const searchRef = useRef(search)
+  const writeRef = useRef(write)
+  useLayoutEffect(() => {
+    searchRef.current = search
+    writeRef.current = write
+  })
+
+  // The values waiting for the timeout, written straight away on unmount, e.g.
+  // when a route change follows a pick, so they still reach the history
+  const queuedValuesRef = useRef<UrlValues>(null)
+  useEffect(
+    () => () => {
+      if (writeTimeoutRef.current) {
+        cancelWrite()
+        writeRef.current(queuedValuesRef.current)
+      }
+    },
+    [cancelWrite]
+  )
+
+  const setValues = useCallback(
+    (values: UrlValues) => {
+      cancelWrite()
+      setPendingValues(values)
+      if (debounce > 0) {
+        queuedValuesRef.current = values
+        writeTimeoutRef.current = setTimeout(() => {
+          writeTimeoutRef.current = null
+          writeRef.current(values)
+        }, debounce)
+      } else {
+        writeRef.current(values)
+      }
+    },
+    [debounce, cancelWrite]
+  )
+
+  const values = pendingValues === undefined ? urlValues : pendingValues
+  const value = useMemo(() => {
+    if (!values) {
+      return null
+    }
+    return isRange ? { start: values[0], end: values[1] } : values[0]
+  }, [values, isRange])
+
+  const setValue = useCallback(
+    (next: string | DateStringRange | null) => {
+      if (next === null) {
+        setValues(null)
+      } else if (typeof next === 'string') {
+        setValues([formatValue(next, withDay)])
+      } else {
+        setValues([
+          formatValue(next.start, withDay),
+          formatValue(next.end, withDay),
+        ])
+      }
+    },
+    [setValues, withDay]
+  )
+
+  const selectorProps = {
+    startDate,
+    endDate,
+    timeZone: options.timeZone,
+    valueType: 'string' as const,
+    onChange: setValue,
+  }
+  if (isRange) {
+    return {
+      value: value as DateStringRange | null,
+      setValue,
+      getSelectorProps: () => ({
+        ...selectorProps,
+        mode: 'range' as const,
+        value: value as DateStringRange | null,
+      }),
+    }
+  }
+  return {
+    value: value as string | null,
+    setValue,
+    getSelectorProps: () => ({
+      ...selectorProps,
+      value: value as string | null,
+    }),
+  }
+}
@@ -0,0 +1,175 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { parseDateString } from './timeline'
+import { fromZonedDay, toZonedDay, type TimeZone } from './timeZone'
+
+export interface TimelineScrollSyncOptions {
+  /**
+   * Selector for the date-grouped sections inside the container (default:
+   * '[data-date]'). Each names its date in a `data-date` attribute, as
+   * 'YYYY-MM' or 'YYYY-MM-DD'.
+   */
+  sectionSelector?: string
+  /**
+   * Margin around the viewport when deciding which sections are in view, as
+   * in `IntersectionObserver` (default: '0px'). A negative bottom margin such
+   * as '0px 0px -50% 0px' counts only sections in the top half.
+   */
+  rootMargin?: string
+  /** How picking a date scrolls to its section (default: 'smooth') */
+  behavior?: ScrollBehavior
+  /** The `timeZone` of the `DateSelector`, so dates pass between them intact */
+  timeZone?: TimeZone
+}
+
+export interface TimelineScrollSyncResult {
+  /** Ref for the element holding the sections */
+  ref: (node: Element | null) => void
+  /** Date of the topmost section in view, or null before any is */
+  currentDate: Date | null
+  /** Scroll to the first section on or after a date, or the last before it */
+  scrollToDate: (date: Date) => void
+  /** Props for `DateSelector`: its position marker and picking a date */
+  getSelectorProps: () => {
+    currentDate: Date | null
+    onChange: (date: Date | null) => void
+  }
+}
+
+const DATE_ATTRIBUTE = 'data-date'
+
+/** The day a section names, or null if it names none */
+function getSectionDate(section: Element) {
+  const value = section.getAttribute(DATE_ATTRIBUTE)
+  return value ? parseDateString(value) : null
+}
+
+/**
+ * Keep a `DateSelector` beside a long, date-grouped list, such as a photo
+ * grid. The bar marks the section scrolled to, and picking a date scrolls its
+ * section into view. Sections added later, e.g. by infinite scrolling, are
+ * picked up as they appear.
+ */
+export function useTimelineScrollSync(
+  options: TimelineScrollSyncOptions = {}
+): TimelineScrollSyncResult {
+  const {
+    sectionSelector = '[data-date]',
+    rootMargin = '0px',
+    behavior = 'smooth',
+    timeZone = 'local',
+  } = options
+  const [containerNode, setContainerNode] = useState<Element | null>(null)
+  // The section in view nearest the top, as its day
+  const [currentDay, setCurrentDay] = useState<Date | null>(null)
+
+  useEffect(() => {
+    if (!containerNode) {
+      return
+    }
+
+    const visible = new Set<Element>()
+    const update = () => {
+      // The first in document order is the one nearest the top
+      const top = [...visible]
+        .sort((a, b) =>
+          a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING
+            ? -1
+            : 1
+        )
+        .map(getSectionDate)
+        .find((date) => date !== null)
+      setCurrentDay((current) =>
+        top && current?.getTime() === top.getTime() ? current : (top ?? null)
+      )
+    }
+
+    const intersectionObserver = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            visible.add(entry.target)
+          } else {
+            visible.delete(entry.target)
+          }
+        }
+        update()
+      },
+      { rootMargin }
+    )
+    const observeSections = () =>
+      containerNode
+        .querySelectorAll(sectionSelector)
+        .forEach((section) => intersectionObserver.observe(section))
+    observeSections()
+
+    // Observing a section twice is a no-op, so new ones are found by looking
+    // again. Removed ones are let go, for lists that recycle their sections.
+    const mutationObserver = new MutationObserver((mutations) => {
+      for (const { removedNodes } of mutations) {
+        removedNodes.forEach((node) => {
+          if (!(node instanceof Element)) {
+            return
+          }
+          const sections = [...node.querySelectorAll(sectionSelector)]
+          if (node.matches(sectionSelector)) {
+            sections.push(node)
+          }
+          for (const section of sections) {
+            intersectionObserver.unobserve(section)
+            visible.delete(section)
+          }
+        })
+      }
+      observeSections()
+      update()
+    })
+    mutationObserver.observe(containerNode, { childList: true, subtree: true })
+
+    return () => {
+      intersectionObserver.disconnect()
+      mutationObserver.disconnect()
+    }
+  }, [containerNode, sectionSelector, rootMargin])
+
+  const scrollToDate = useCallback(
+    (date: Date) => {
+      if (!containerNode) {
+        return
+      }
+
+      const day = toZonedDay(date, timeZone)
+      const sections = [
+        ...containerNode.querySelectorAll(sectionSelector),
+      ].flatMap((section) => {
+        const sectionDate = getSectionDate(section)
+        return sectionDate ? [{ section, date: sectionDate }] : []
+      })
+      const byDate = (a: { date: Date }, b: { date: Date }) =>
+        a.date.getTime() - b.date.getTime()
+      const after = sections.filter(({ date }) => date >= day).sort(byDate)
+      const before = sections.filter(({ date }) => date < day).sort(byDate)
+      const target = after[0] ?? before[before.length - 1]
+      target?.section.scrollIntoView({ behavior, block: 'start' })
+    },
+    [containerNode, sectionSelector, behavior, timeZone]
+  )
+
+  const currentDate = useMemo(
+    () => currentDay && fromZonedDay(currentDay, timeZone),
+    [currentDay, timeZone]
+  )
+
+  return {
+    ref: setContainerNode,
+    currentDate,
+    scrollToDate,
+    getSelectorProps: () => ({
+      currentDate,
+      onChange: (date) => {
+        if (date) {
+          scrollToDate(date)
+        }
+      },
+    }),
+  }
+}
@@ -0,0 +1,9 @@
+// Builds styles.css from the component classes alone, leaving out the demo's
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ["./src/components/**/*.{ts,tsx}"],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+}
@@ -0,0 +1,37 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+import { resolve } from 'path'
+
+// Standalone build of the <date-selector> custom element, with React bundled
+// in, for pages loading it from a <script type="module"> without a bundler
+export default defineConfig({
+  plugins: [
+    react(),
+    {
+      // The element keeps its styles in its shadow root, so the stylesheet
+      // for the page isn't needed
+      name: 'drop-page-styles',
+      enforce: 'post',
+      generateBundle(_options, bundle) {
+        for (const fileName of Object.keys(bundle)) {
+          if (fileName.endsWith('.css')) {
+            delete bundle[fileName]
+          }
+        }
+      },
+    },
+  ],
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    lib: {
+      entry: resolve(__dirname, 'src/components/element.tsx'),
+      formats: ['es'],
+      fileName: () => 'element.standalone.js',
+    },
+    outDir: 'dist',
+    // Added to the library build rather than replacing it
+    emptyOutDir: false,
+  },
+})
@@ -14,14 +14,22 @@ export default defineConfig({
   ],
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/components/index.ts'),
+      entry: {
+        index: resolve(__dirname, 'src/components/index.ts'),
+        // The <date-selector> custom element, with its styles built in
+        element: resolve(__dirname, 'src/components/element.tsx'),
+      },
       name: 'DateSelector',
       formats: ['es', 'cjs'],
-      fileName: 'index',
+      fileName: (format, entryName) =>
+        `${entryName}.${format === 'es' ? 'js' : 'cjs'}`,
     },
     rollupOptions: {
-      external: ['react', 'react-dom', 'react/jsx-runtime'],
+      external: ['react', 'react-dom', 'react-dom/client', 'react/jsx-runtime'],
       output: {
+        // The stylesheet exported as @hakonkrogh/date-selector/styles.css
+        assetFileNames: (asset) =>
+          asset.name?.endsWith('.css') ? 'styles.css' : '[name][extname]',
         globals: {
           react: 'React',
           'react-dom': 'ReactDOM',